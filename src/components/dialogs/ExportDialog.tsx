@@ -1,44 +1,128 @@
 import { useState } from 'react';
 import { useUIStore } from '../../store/uiStore';
 import { useProjectStore } from '../../store/projectStore';
-import { getAudioEngine } from '../../hooks/useAudioEngine';
-import { loadAudioBlobByKey } from '../../services/audioFileManager';
-import { exportMixToWav } from '../../engine/exportMix';
+import { useTransportStore } from '../../store/transportStore';
+import { getAudioBuffer } from '../../services/audioBufferCache';
+import {
+  analyzeMix,
+  exportMixToFile,
+  exportStemsToZip,
+  getRenderSampleRate,
+  getFullRange,
+  getContentRange,
+  getAudibleClips,
+  type LoudnessReport,
+  type RenderRange,
+} from '../../engine/exportMix';
+import { collectClipSchedule, type ClipScheduleInfo } from '../../engine/MixGraph';
+import { formatTime } from '../../utils/time';
+import { hasPlayableAudio } from '../../utils/clipAudio';
+import {
+  EXPORT_FILE_TYPES,
+  EXPORT_SAMPLE_RATES,
+  EXPORT_BIT_DEPTHS,
+  DITHER_MODES,
+  MP3_BITRATES,
+  MP3_MAX_SAMPLE_RATE,
+  LOUDNESS_TARGETS,
+  DEFAULT_EXPORT_FORMAT,
+  type ExportFormat,
+  type ExportFileType,
+} from '../../constants/export';
+import type { WavBitDepth, DitherMode } from '../../utils/wav';
+
+type ExportMode = 'mix' | 'stems';
+
+const EXPORT_MODES: Array<{ value: ExportMode; label: string }> = [
+  { value: 'mix', label: 'Mix' },
+  { value: 'stems', label: 'Stems' },
+];
+
+type RangeKind = 'full' | 'content' | 'loop' | 'custom';
+
+const RANGE_KINDS: Array<{ value: RangeKind; label: string }> = [
+  { value: 'full', label: 'Whole timeline' },
+  { value: 'content', label: 'First clip to last clip' },
+  { value: 'loop', label: 'Loop region' },
+  { value: 'custom', label: 'Custom range' },
+];
 
 export function ExportDialog() {
   const show = useUIStore((s) => s.showExportDialog);
   const setShow = useUIStore((s) => s.setShowExportDialog);
   const project = useProjectStore((s) => s.project);
+  const loopStart = useTransportStore((s) => s.loopStart);
+  const loopEnd = useTransportStore((s) => s.loopEnd);
   const [exporting, setExporting] = useState(false);
+  const [mode, setMode] = useState<ExportMode>('mix');
+  const [format, setFormat] = useState<ExportFormat>(DEFAULT_EXPORT_FORMAT);
+  const [rangeKind, setRangeKind] = useState<RangeKind>('full');
+  const [customRange, setCustomRange] = useState({ start: 0, end: 0 });
+  const [tail, setTail] = useState(0);
+  const [normalizeTarget, setNormalizeTarget] = useState<number | null>(null);
+  const [analyzing, setAnalyzing] = useState(false);
+  // Tagged with the project revision and range it was measured at, so edits invalidate it
+  const [analysis, setAnalysis] = useState<{ report: LoudnessReport; key: string } | null>(null);
 
   if (!show || !project) return null;
 
+  const loadClips = () => {
+    return collectClipSchedule(project, getAudioBuffer);
+  };
+
+  const readyClips = project.tracks.flatMap((t) =>
+    t.clips.filter(hasPlayableAudio).map((c) => ({ trackId: t.id, startTime: c.startTime, clipDuration: c.duration })),
+  );
+
+  const hasLoop = loopEnd > loopStart;
+
+  /** The span to render; `clips` only matters for the content range, trimmed to the clips the mix lets through. */
+  const resolveRange = (clips: Array<Pick<ClipScheduleInfo, 'trackId' | 'startTime' | 'clipDuration'>>): RenderRange | null => {
+    switch (rangeKind) {
+      case 'full':
+        return { ...getFullRange(project), tail };
+      case 'content':
+        return getContentRange(getAudibleClips(project, clips), tail);
+      case 'loop':
+        return hasLoop ? { start: loopStart, end: loopEnd, tail } : null;
+      case 'custom':
+        return customRange.end > customRange.start ? { ...customRange, tail } : null;
+    }
+  };
+
+  const previewRange = resolveRange(readyClips);
+  const analysisKey = previewRange
+    ? `${project.updatedAt}:${previewRange.start}:${previewRange.end}:${previewRange.tail}`
+    : '';
+
+  const handleAnalyze = async () => {
+    setAnalyzing(true);
+    try {
+      const clips = await loadClips();
+      const range = resolveRange(clips);
+      if (!range) return;
+      const report = await analyzeMix(project, clips, range, getRenderSampleRate(format));
+      setAnalysis({ report, key: analysisKey });
+    } catch (error) {
+      console.error('Loudness analysis failed:', error);
+    } finally {
+      setAnalyzing(false);
+    }
+  };
+
   const handleExport = async () => {
     setExporting(true);
     try {
-      const engine = getAudioEngine();
-      const clips: Array<{ startTime: number; buffer: AudioBuffer; volume: number }> = [];
-
-      const anySoloed = project.tracks.some((t) => t.soloed);
-      for (const track of project.tracks) {
-        if (track.muted) continue;
-        if (anySoloed && !track.soloed) continue;
-        for (const clip of track.clips) {
-          if (clip.generationStatus === 'ready' && clip.isolatedAudioKey) {
-            const blob = await loadAudioBlobByKey(clip.isolatedAudioKey);
-            if (blob) {
-              const buffer = await engine.decodeAudioData(blob);
-              clips.push({ startTime: clip.startTime, buffer, volume: track.volume });
-            }
-          }
-        }
-      }
-
-      const wavBlob = await exportMixToWav(clips, project.totalDuration);
-      const url = URL.createObjectURL(wavBlob);
+      const clips = await loadClips();
+      const range = resolveRange(clips);
+      if (!range) return;
+      const blob = mode === 'stems'
+        ? await exportStemsToZip(project, clips, range, format)
+        : await exportMixToFile(project, clips, range, format, normalizeTarget);
+      const url = URL.createObjectURL(blob);
       const a = document.createElement('a');
       a.href = url;
-      a.download = `${project.name}.wav`;
+      a.download = mode === 'stems' ? `${project.name} - stems.zip` : `${project.name}.${format.fileType}`;
       a.click();
       URL.revokeObjectURL(url);
       setShow(false);
@@ -49,15 +133,31 @@ export function ExportDialog() {
     }
   };
 
-  const readyClips = project.tracks.flatMap((t) =>
-    t.clips.filter((c) => c.generationStatus === 'ready'),
-  );
+  const setFileType = (fileType: ExportFileType) => {
+    setFormat({
+      ...format,
+      fileType,
+      // FLAC has no float mode; MP3 has no 96 kHz
+      bitDepth: fileType === 'flac' && format.bitDepth === 32 ? 24 : format.bitDepth,
+      sampleRate: fileType === 'mp3' ? Math.min(format.sampleRate, MP3_MAX_SAMPLE_RATE) : format.sampleRate,
+    });
+  };
+
+  const sampleRates = format.fileType === 'mp3'
+    ? EXPORT_SAMPLE_RATES.filter((rate) => rate <= MP3_MAX_SAMPLE_RATE)
+    : EXPORT_SAMPLE_RATES;
+  const bitDepths = format.fileType === 'flac'
+    ? EXPORT_BIT_DEPTHS.filter((d) => d.value !== 32)
+    : EXPORT_BIT_DEPTHS;
+  const showDither = format.fileType === 'mp3' || format.bitDepth === 16;
+
+  const report = analysis?.key === analysisKey ? analysis.report : null;
 
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60">
       <div className="w-[360px] bg-daw-surface rounded-lg border border-daw-border shadow-2xl">
         <div className="flex items-center justify-between px-4 py-3 border-b border-daw-border">
-          <h2 className="text-sm font-medium">Export Mix</h2>
+          <h2 className="text-sm font-medium">Export</h2>
           <button
             onClick={() => setShow(false)}
             className="text-zinc-500 hover:text-zinc-300 text-lg leading-none"
@@ -67,9 +167,217 @@ export function ExportDialog() {
         </div>
 
         <div className="p-4 space-y-3">
+          <div className="flex gap-1">
+            {EXPORT_MODES.map((m) => (
+              <button
+                key={m.value}
+                onClick={() => setMode(m.value)}
+                className={`flex-1 h-7 text-xs font-medium rounded transition-colors ${
+                  mode === m.value
+                    ? 'bg-daw-accent text-white'
+                    : 'bg-daw-surface-2 text-zinc-400 hover:text-zinc-200'
+                }`}
+              >
+                {m.label}
+              </button>
+            ))}
+          </div>
           <p className="text-xs text-zinc-400">
-            Export all generated clips as a stereo WAV file at 48kHz.
+            {mode === 'stems'
+              ? 'Render every audible track to its own file, aligned to the range start and the same length, packaged as a zip. Stems include their send effects and skip the master glue/limiter.'
+              : 'Export all generated clips as a stereo file.'}
           </p>
+
+          <div className="space-y-2">
+            <div className="grid grid-cols-[1fr_80px] gap-3">
+              <div>
+                <label className="block text-xs text-zinc-400 mb-1">Range</label>
+                <select
+                  value={rangeKind}
+                  onChange={(e) => setRangeKind(e.target.value as RangeKind)}
+                  className="w-full px-3 py-1.5 text-sm bg-daw-bg border border-daw-border rounded focus:outline-none focus:border-daw-accent"
+                >
+                  {RANGE_KINDS.map((r) => (
+                    <option key={r.value} value={r.value} disabled={r.value === 'loop' && !hasLoop}>
+                      {r.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-xs text-zinc-400 mb-1">Tail (s)</label>
+                <input
+                  type="number"
+                  value={tail}
+                  onChange={(e) => setTail(Math.max(0, Math.min(30, parseFloat(e.target.value) || 0)))}
+                  min={0}
+                  max={30}
+                  step={0.5}
+                  className="w-full px-3 py-1.5 text-sm bg-daw-bg border border-daw-border rounded focus:outline-none focus:border-daw-accent"
+                />
+              </div>
+            </div>
+
+            {rangeKind === 'custom' && (
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-xs text-zinc-400 mb-1">Start (s)</label>
+                  <input
+                    type="number"
+                    value={customRange.start}
+                    onChange={(e) => setCustomRange({ ...customRange, start: Math.max(0, parseFloat(e.target.value) || 0) })}
+                    min={0}
+                    step={0.1}
+                    className="w-full px-3 py-1.5 text-sm bg-daw-bg border border-daw-border rounded focus:outline-none focus:border-daw-accent"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs text-zinc-400 mb-1">End (s)</label>
+                  <input
+                    type="number"
+                    value={customRange.end}
+                    onChange={(e) => setCustomRange({ ...customRange, end: Math.max(0, parseFloat(e.target.value) || 0) })}
+                    min={0}
+                    step={0.1}
+                    className="w-full px-3 py-1.5 text-sm bg-daw-bg border border-daw-border rounded focus:outline-none focus:border-daw-accent"
+                  />
+                </div>
+              </div>
+            )}
+
+            <p className="text-[10px] text-zinc-500">
+              {previewRange
+                ? `${formatTime(previewRange.start)} → ${formatTime(previewRange.end)}${previewRange.tail > 0 ? ` + ${previewRange.tail}s tail` : ''}`
+                : rangeKind === 'loop'
+                  ? 'No loop region set.'
+                  : 'Empty range.'}
+            </p>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-xs text-zinc-400 mb-1">Format</label>
+              <select
+                value={format.fileType}
+                onChange={(e) => setFileType(e.target.value as ExportFileType)}
+                className="w-full px-3 py-1.5 text-sm bg-daw-bg border border-daw-border rounded focus:outline-none focus:border-daw-accent"
+              >
+                {EXPORT_FILE_TYPES.map((t) => (
+                  <option key={t.value} value={t.value}>{t.label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs text-zinc-400 mb-1">Sample Rate</label>
+              <select
+                value={format.sampleRate}
+                onChange={(e) => setFormat({ ...format, sampleRate: parseInt(e.target.value) })}
+                className="w-full px-3 py-1.5 text-sm bg-daw-bg border border-daw-border rounded focus:outline-none focus:border-daw-accent"
+              >
+                {sampleRates.map((rate) => (
+                  <option key={rate} value={rate}>{(rate / 1000).toFixed(1)} kHz</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            {format.fileType === 'mp3' ? (
+              <div>
+                <label className="block text-xs text-zinc-400 mb-1">Bitrate</label>
+                <select
+                  value={format.mp3Bitrate}
+                  onChange={(e) => setFormat({ ...format, mp3Bitrate: parseInt(e.target.value) })}
+                  className="w-full px-3 py-1.5 text-sm bg-daw-bg border border-daw-border rounded focus:outline-none focus:border-daw-accent"
+                >
+                  {MP3_BITRATES.map((kbps) => (
+                    <option key={kbps} value={kbps}>{kbps} kbps</option>
+                  ))}
+                </select>
+              </div>
+            ) : (
+              <div>
+                <label className="block text-xs text-zinc-400 mb-1">Bit Depth</label>
+                <select
+                  value={format.bitDepth}
+                  onChange={(e) => setFormat({ ...format, bitDepth: parseInt(e.target.value) as WavBitDepth })}
+                  className="w-full px-3 py-1.5 text-sm bg-daw-bg border border-daw-border rounded focus:outline-none focus:border-daw-accent"
+                >
+                  {bitDepths.map((d) => (
+                    <option key={d.value} value={d.value}>{d.label}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+            {showDither && (
+              <div>
+                <label className="block text-xs text-zinc-400 mb-1">Dither</label>
+                <select
+                  value={format.dither}
+                  onChange={(e) => setFormat({ ...format, dither: e.target.value as DitherMode })}
+                  className="w-full px-3 py-1.5 text-sm bg-daw-bg border border-daw-border rounded focus:outline-none focus:border-daw-accent"
+                >
+                  {DITHER_MODES.map((d) => (
+                    <option key={d.value} value={d.value}>{d.label}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+          </div>
+          {mode === 'mix' && (
+            <div className="space-y-2 pt-2 border-t border-daw-border">
+              <div className="flex items-center justify-between">
+                <h3 className="text-xs font-medium text-zinc-300">Loudness</h3>
+                <button
+                  onClick={handleAnalyze}
+                  disabled={analyzing || exporting || readyClips.length === 0 || !previewRange}
+                  className="px-2 py-0.5 text-[10px] font-medium bg-daw-surface-2 hover:bg-zinc-600 rounded transition-colors disabled:opacity-50"
+                >
+                  {analyzing ? 'Analyzing...' : 'Analyze'}
+                </button>
+              </div>
+
+              {report && (
+                <div className="grid grid-cols-3 gap-2 text-center">
+                  <LoudnessStat label="Integrated" value={formatLufs(report.integrated)} />
+                  <LoudnessStat label="Short-term max" value={formatLufs(report.shortTermMax)} />
+                  <LoudnessStat
+                    label="True peak"
+                    value={Number.isFinite(report.truePeak) ? `${report.truePeak.toFixed(1)} dBTP` : '—'}
+                    warn={report.truePeak > -1}
+                  />
+                </div>
+              )}
+
+              <div className="flex items-center gap-2">
+                <label className="flex items-center gap-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={normalizeTarget !== null}
+                    onChange={(e) => setNormalizeTarget(e.target.checked ? LOUDNESS_TARGETS[0].value : null)}
+                    className="w-4 h-4 rounded border-daw-border bg-daw-bg accent-daw-accent"
+                  />
+                  <span className="text-xs text-zinc-400">Normalize to</span>
+                </label>
+                <select
+                  value={normalizeTarget ?? LOUDNESS_TARGETS[0].value}
+                  onChange={(e) => setNormalizeTarget(parseFloat(e.target.value))}
+                  disabled={normalizeTarget === null}
+                  className="flex-1 px-2 py-1 text-xs bg-daw-bg border border-daw-border rounded focus:outline-none focus:border-daw-accent disabled:opacity-50"
+                >
+                  {LOUDNESS_TARGETS.map((t) => (
+                    <option key={t.value} value={t.value}>{t.label}</option>
+                  ))}
+                </select>
+              </div>
+              {normalizeTarget !== null && report && Number.isFinite(report.integrated) && (
+                <p className="text-[10px] text-zinc-500">
+                  Master trim of {formatGain(normalizeTarget - report.integrated)} before the limiter.
+                </p>
+              )}
+            </div>
+          )}
+
           <p className="text-xs text-zinc-500">
             {readyClips.length} clip{readyClips.length !== 1 ? 's' : ''} ready across{' '}
             {project.tracks.length} track{project.tracks.length !== 1 ? 's' : ''}
@@ -85,13 +393,30 @@ export function ExportDialog() {
           </button>
           <button
             onClick={handleExport}
-            disabled={exporting || readyClips.length === 0}
+            disabled={exporting || readyClips.length === 0 || !previewRange}
             className="px-4 py-1.5 text-xs font-medium bg-daw-accent hover:bg-daw-accent-hover text-white rounded transition-colors disabled:opacity-50"
           >
-            {exporting ? 'Exporting...' : 'Export WAV'}
+            {exporting ? 'Exporting...' : mode === 'stems' ? 'Export Stems' : `Export ${format.fileType.toUpperCase()}`}
           </button>
         </div>
       </div>
     </div>
   );
 }
+
+function formatLufs(lufs: number): string {
+  return Number.isFinite(lufs) ? `${lufs.toFixed(1)} LUFS` : '—';
+}
+
+function formatGain(db: number): string {
+  return `${db >= 0 ? '+' : ''}${db.toFixed(1)} dB`;
+}
+
+function LoudnessStat({ label, value, warn }: { label: string; value: string; warn?: boolean }) {
+  return (
+    <div className="px-1 py-1.5 rounded bg-daw-bg border border-daw-border">
+      <div className={`text-xs font-medium ${warn ? 'text-amber-400' : 'text-zinc-200'}`}>{value}</div>
+      <div className="text-[9px] text-zinc-500">{label}</div>
+    </div>
+  );
+}
@@ -0,0 +1,144 @@
+import { useState, useEffect } from 'react';
+import { useProjectStore } from '../../store/projectStore';
+import { useUIStore } from '../../store/uiStore';
+import { KEY_SCALES, TIME_SIGNATURES } from '../../constants/tracks';
+import { MIN_BPM, MAX_BPM } from '../../constants/defaults';
+
+export function ProjectSettingsDialog() {
+  const show = useUIStore((s) => s.showProjectSettingsDialog);
+  const setShow = useUIStore((s) => s.setShowProjectSettingsDialog);
+  const project = useProjectStore((s) => s.project);
+  const updateProjectSettings = useProjectStore((s) => s.updateProjectSettings);
+
+  const [name, setName] = useState('');
+  const [bpm, setBpm] = useState(0);
+  const [keyScale, setKeyScale] = useState('');
+  const [timeSignature, setTimeSignature] = useState(0);
+  const [keepOnBars, setKeepOnBars] = useState(true);
+
+  // Load the current values when dialog opens
+  useEffect(() => {
+    if (show && project) {
+      setName(project.name);
+      setBpm(project.bpm);
+      setKeyScale(project.keyScale);
+      setTimeSignature(project.timeSignature);
+      setKeepOnBars(true);
+    }
+  }, [show]);
+
+  if (!show || !project) return null;
+
+  const timingChanged = bpm !== project.bpm || timeSignature !== project.timeSignature;
+  const clipCount = project.tracks.reduce((n, t) => n + t.clips.length, 0);
+  const generatedCount = project.tracks.reduce(
+    (n, t) => n + t.clips.filter((c) => c.generationStatus === 'ready').length,
+    0,
+  );
+
+  const handleSave = () => {
+    updateProjectSettings({ name: name.trim() || project.name, bpm, keyScale, timeSignature }, timingChanged && keepOnBars);
+    setShow(false);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60">
+      <div className="w-[400px] bg-daw-surface rounded-lg border border-daw-border shadow-2xl">
+        <div className="flex items-center justify-between px-4 py-3 border-b border-daw-border">
+          <h2 className="text-sm font-medium">Project Settings</h2>
+          <button
+            onClick={() => setShow(false)}
+            className="text-zinc-500 hover:text-zinc-300 text-lg leading-none"
+          >
+            ×
+          </button>
+        </div>
+
+        <div className="p-4 space-y-3">
+          <div>
+            <label className="block text-xs text-zinc-400 mb-1">Project Name</label>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="w-full px-3 py-1.5 text-sm bg-daw-bg border border-daw-border rounded focus:outline-none focus:border-daw-accent"
+            />
+          </div>
+
+          <div>
+            <label className="block text-xs text-zinc-400 mb-1">BPM</label>
+            <input
+              type="number"
+              value={bpm}
+              onChange={(e) => setBpm(Math.min(MAX_BPM, Math.max(MIN_BPM, parseInt(e.target.value) || MIN_BPM)))}
+              min={MIN_BPM}
+              max={MAX_BPM}
+              className="w-full px-3 py-1.5 text-sm bg-daw-bg border border-daw-border rounded focus:outline-none focus:border-daw-accent"
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-xs text-zinc-400 mb-1">Key</label>
+              <select
+                value={keyScale}
+                onChange={(e) => setKeyScale(e.target.value)}
+                className="w-full px-3 py-1.5 text-sm bg-daw-bg border border-daw-border rounded focus:outline-none focus:border-daw-accent"
+              >
+                {KEY_SCALES.map((k) => (
+                  <option key={k} value={k}>{k}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs text-zinc-400 mb-1">Time Signature</label>
+              <select
+                value={timeSignature}
+                onChange={(e) => setTimeSignature(parseInt(e.target.value))}
+                className="w-full px-3 py-1.5 text-sm bg-daw-bg border border-daw-border rounded focus:outline-none focus:border-daw-accent"
+              >
+                {TIME_SIGNATURES.map((ts) => (
+                  <option key={ts} value={ts}>{ts}/4</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {timingChanged && clipCount > 0 && (
+            <div className="space-y-1">
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={keepOnBars}
+                  onChange={(e) => setKeepOnBars(e.target.checked)}
+                  className="w-4 h-4 rounded border-daw-border bg-daw-bg accent-daw-accent"
+                />
+                <span className="text-xs text-zinc-300">Keep clips on their bars</span>
+              </label>
+              <p className="text-[10px] text-zinc-500">
+                {keepOnBars
+                  ? `Clips and automation move and stretch to the new grid.${generatedCount > 0 ? ` ${generatedCount} generated clip${generatedCount === 1 ? '' : 's'} will be marked stale and keep playing ${generatedCount === 1 ? 'its' : 'their'} old audio, not time-stretched, until regenerated.` : ''}`
+                  : 'Clips keep their positions in seconds and will drift off the new grid.'}
+              </p>
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end px-4 py-3 border-t border-daw-border gap-2">
+          <button
+            onClick={() => setShow(false)}
+            className="px-4 py-1.5 text-xs font-medium bg-daw-surface-2 hover:bg-zinc-600 rounded transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            className="px-4 py-1.5 text-xs font-medium bg-daw-accent hover:bg-daw-accent-hover text-white rounded transition-colors"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -3,6 +3,7 @@ import { useUIStore } from '../../store/uiStore';
 import { useProjectStore } from '../../store/projectStore';
 import { listModels } from '../../services/aceStepApi';
 import type { ModelEntry } from '../../types/api';
+import { DEFAULT_MAX_RETRIES, DEFAULT_RETRY_BASE_DELAY_MS } from '../../constants/defaults';
 
 export function SettingsDialog() {
   const show = useUIStore((s) => s.showSettingsDialog);
@@ -14,6 +15,8 @@ export function SettingsDialog() {
   const [shift, setShift] = useState(3.0);
   const [thinking, setThinking] = useState(true);
   const [model, setModel] = useState('');
+  const [maxRetries, setMaxRetries] = useState(DEFAULT_MAX_RETRIES);
+  const [retryDelay, setRetryDelay] = useState(DEFAULT_RETRY_BASE_DELAY_MS);
   const [availableModels, setAvailableModels] = useState<ModelEntry[]>([]);
   const [modelsLoading, setModelsLoading] = useState(false);
 
@@ -25,6 +28,8 @@ export function SettingsDialog() {
       setShift(project.generationDefaults.shift);
       setThinking(project.generationDefaults.thinking);
       setModel(project.generationDefaults.model);
+      setMaxRetries(project.generationDefaults.maxRetries ?? DEFAULT_MAX_RETRIES);
+      setRetryDelay(project.generationDefaults.retryBaseDelayMs ?? DEFAULT_RETRY_BASE_DELAY_MS);
     }
   }, [show]);
 
@@ -53,6 +58,8 @@ export function SettingsDialog() {
             shift,
             thinking,
             model,
+            maxRetries,
+            retryBaseDelayMs: retryDelay,
           },
         },
       });
@@ -144,6 +151,35 @@ export function SettingsDialog() {
               ))}
             </select>
           </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-xs text-zinc-400 mb-1">Retries</label>
+              <input
+                type="number"
+                value={maxRetries}
+                onChange={(e) => setMaxRetries(Math.min(10, Math.max(0, parseInt(e.target.value) || 0)))}
+                min={0}
+                max={10}
+                className="w-full px-3 py-1.5 text-sm bg-daw-bg border border-daw-border rounded focus:outline-none focus:border-daw-accent"
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-zinc-400 mb-1">First Retry Delay (ms)</label>
+              <input
+                type="number"
+                value={retryDelay}
+                onChange={(e) => setRetryDelay(Math.min(10000, Math.max(100, parseInt(e.target.value) || DEFAULT_RETRY_BASE_DELAY_MS)))}
+                min={100}
+                max={10000}
+                step={100}
+                className="w-full px-3 py-1.5 text-sm bg-daw-bg border border-daw-border rounded focus:outline-none focus:border-daw-accent"
+              />
+            </div>
+          </div>
+          <p className="text-[10px] text-zinc-500">
+            Network errors, timeouts, rate limits and server errors are retried, doubling the wait each time.
+          </p>
         </div>
 
         <div className="flex justify-end px-4 py-3 border-t border-daw-border gap-2">
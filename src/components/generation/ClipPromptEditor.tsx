@@ -3,6 +3,8 @@ import { useProjectStore } from '../../store/projectStore';
 import { useUIStore } from '../../store/uiStore';
 import { useGeneration } from '../../hooks/useGeneration';
 import { KEY_SCALES, TIME_SIGNATURES } from '../../constants/tracks';
+import { CLIP_GAIN_MIN_DB, CLIP_GAIN_MAX_DB } from '../../constants/defaults';
+import { getTempoAt, getTempoMap } from '../../utils/tempoMap';
 
 export function ClipPromptEditor() {
   const editingClipId = useUIStore((s) => s.editingClipId);
@@ -25,6 +27,9 @@ export function ClipPromptEditor() {
   const [overrideBpm, setOverrideBpm] = useState<number | 'auto' | null>('auto');
   const [overrideKey, setOverrideKey] = useState<string | 'auto' | null>('auto');
   const [overrideTimeSig, setOverrideTimeSig] = useState<number | 'auto' | null>('auto');
+  const [gain, setGain] = useState(0);
+  const [polarityInverted, setPolarityInverted] = useState(false);
+  const [reversed, setReversed] = useState(false);
 
   // Only reset form when switching to a different clip (not on every store update)
   useEffect(() => {
@@ -38,11 +43,17 @@ export function ClipPromptEditor() {
       setOverrideBpm(clip.bpm === undefined ? 'auto' : clip.bpm);
       setOverrideKey(clip.keyScale === undefined ? 'auto' : clip.keyScale);
       setOverrideTimeSig(clip.timeSignature === undefined ? 'auto' : clip.timeSignature);
+      setGain(clip.gain ?? 0);
+      setPolarityInverted(clip.polarityInverted ?? false);
+      setReversed(clip.reversed ?? false);
     }
   }, [editingClipId]);
 
   if (!editingClipId || !clip || !project) return null;
 
+  // "Project" means the tempo map at the clip's start, not just the opening tempo
+  const projectTempo = getTempoAt(getTempoMap(project), clip.startTime);
+
   const handleSave = () => {
     updateClip(editingClipId, {
       prompt,
@@ -54,6 +65,9 @@ export function ClipPromptEditor() {
       timeSignature: overrideTimeSig,
       sampleMode,
       autoExpandPrompt,
+      gain,
+      polarityInverted,
+      reversed,
     });
     setEditingClip(null);
   };
@@ -66,6 +80,9 @@ export function ClipPromptEditor() {
       timeSignature: overrideTimeSig,
       sampleMode,
       autoExpandPrompt,
+      gain,
+      polarityInverted,
+      reversed,
     });
     setEditingClip(null);
     generateClip(editingClipId);
@@ -162,10 +179,46 @@ export function ClipPromptEditor() {
             </div>
           </div>
 
+          {/* Clip playback: level, polarity, direction */}
+          <div className="border-t border-daw-border pt-3 grid grid-cols-2 gap-3 items-end">
+            <div>
+              <label className="block text-xs text-zinc-400 mb-1">Clip Gain (dB)</label>
+              <input
+                type="number"
+                value={gain}
+                onChange={(e) => setGain(Math.max(CLIP_GAIN_MIN_DB, Math.min(CLIP_GAIN_MAX_DB, parseFloat(e.target.value) || 0)))}
+                min={CLIP_GAIN_MIN_DB}
+                max={CLIP_GAIN_MAX_DB}
+                step={0.5}
+                className="w-full px-3 py-1.5 text-sm bg-daw-bg border border-daw-border rounded focus:outline-none focus:border-daw-accent"
+              />
+            </div>
+            <div className="flex items-center gap-4 pb-1.5">
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={polarityInverted}
+                  onChange={(e) => setPolarityInverted(e.target.checked)}
+                  className="w-4 h-4 rounded border-daw-border bg-daw-bg accent-daw-accent"
+                />
+                <span className="text-xs text-zinc-400">Invert polarity</span>
+              </label>
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={reversed}
+                  onChange={(e) => setReversed(e.target.checked)}
+                  className="w-4 h-4 rounded border-daw-border bg-daw-bg accent-daw-accent"
+                />
+                <span className="text-xs text-zinc-400">Reverse</span>
+              </label>
+            </div>
+          </div>
+
           {/* Per-clip musical overrides */}
           <div className="border-t border-daw-border pt-3">
             <p className="text-[10px] text-zinc-500 mb-2">
-              Auto = ACE-Step infers from audio context. Project = use project settings ({project.bpm} BPM, {project.keyScale}, {project.timeSignature}/4).
+              Auto = ACE-Step infers from audio context. Project = use project settings at the clip start ({projectTempo.bpm} BPM, {project.keyScale}, {projectTempo.timeSignature}/4).
             </p>
             <div className="grid grid-cols-3 gap-3">
               <div>
@@ -175,19 +228,19 @@ export function ClipPromptEditor() {
                   onChange={(e) => {
                     if (e.target.value === 'auto') setOverrideBpm('auto');
                     else if (e.target.value === 'project') setOverrideBpm(null);
-                    else setOverrideBpm(project.bpm);
+                    else setOverrideBpm(projectTempo.bpm);
                   }}
                   className="w-full px-3 py-1.5 text-sm bg-daw-bg border border-daw-border rounded focus:outline-none focus:border-daw-accent mb-1"
                 >
                   <option value="auto">Auto</option>
-                  <option value="project">Project ({project.bpm})</option>
+                  <option value="project">Project ({projectTempo.bpm})</option>
                   <option value="manual">Manual</option>
                 </select>
                 {overrideBpm !== 'auto' && overrideBpm !== null && (
                   <input
                     type="number"
                     value={overrideBpm}
-                    onChange={(e) => setOverrideBpm(e.target.value ? parseInt(e.target.value) : project.bpm)}
+                    onChange={(e) => setOverrideBpm(e.target.value ? parseInt(e.target.value) : projectTempo.bpm)}
                     min={30}
                     max={300}
                     className="w-full px-3 py-1.5 text-sm bg-daw-bg border border-daw-border rounded focus:outline-none focus:border-daw-accent"
@@ -228,12 +281,12 @@ export function ClipPromptEditor() {
                   onChange={(e) => {
                     if (e.target.value === 'auto') setOverrideTimeSig('auto');
                     else if (e.target.value === 'project') setOverrideTimeSig(null);
-                    else setOverrideTimeSig(project.timeSignature);
+                    else setOverrideTimeSig(projectTempo.timeSignature);
                   }}
                   className="w-full px-3 py-1.5 text-sm bg-daw-bg border border-daw-border rounded focus:outline-none focus:border-daw-accent mb-1"
                 >
                   <option value="auto">Auto</option>
-                  <option value="project">Project ({project.timeSignature}/4)</option>
+                  <option value="project">Project ({projectTempo.timeSignature}/4)</option>
                   <option value="manual">Manual</option>
                 </select>
                 {overrideTimeSig !== 'auto' && overrideTimeSig !== null && (
@@ -1,14 +1,43 @@
 import { useGenerationStore } from '../../store/generationStore';
+import { useProjectStore } from '../../store/projectStore';
+import { useGeneration } from '../../hooks/useGeneration';
 import { GenerateButton } from './GenerateButton';
 
 export function GenerationPanel() {
   const jobs = useGenerationStore((s) => s.jobs);
   const clearCompletedJobs = useGenerationStore((s) => s.clearCompletedJobs);
+  const staleCount = useProjectStore((s) =>
+    s.project?.tracks.reduce((n, t) => n + t.clips.filter((c) => c.generationStatus === 'stale').length, 0) ?? 0,
+  );
+  const { isGenerating, regenerateStale, cancelJob, cancelAll } = useGeneration();
 
   return (
     <div className="border-t border-daw-border bg-daw-surface">
       <div className="flex items-center h-9 px-3 gap-3">
         <GenerateButton />
+        {staleCount > 0 && (
+          <button
+            onClick={regenerateStale}
+            disabled={isGenerating}
+            className={`px-3 py-1.5 text-xs font-medium rounded transition-colors ${
+              isGenerating
+                ? 'bg-zinc-700 text-zinc-400 cursor-not-allowed'
+                : 'bg-amber-600/80 hover:bg-amber-600 text-white'
+            }`}
+            title="Regenerate clips whose lower layers changed, bottom to top"
+          >
+            Regenerate stale ({staleCount})
+          </button>
+        )}
+        {isGenerating && (
+          <button
+            onClick={cancelAll}
+            className="px-3 py-1.5 text-xs font-medium rounded bg-daw-surface-2 hover:bg-red-500/30 text-zinc-200 transition-colors"
+            title="Stop the running job and skip the rest"
+          >
+            Cancel
+          </button>
+        )}
 
         {jobs.length > 0 && (
           <>
@@ -31,6 +60,15 @@ export function GenerationPanel() {
                   )}
                   <span className="uppercase">{job.trackName}</span>
                   <span className="text-[9px] opacity-70">{job.progress}</span>
+                  {(job.status === 'queued' || job.status === 'generating') && (
+                    <button
+                      onClick={() => cancelJob(job.id)}
+                      className="ml-0.5 text-[11px] leading-none opacity-60 hover:opacity-100"
+                      title="Cancel this job"
+                    >
+                      ×
+                    </button>
+                  )}
                 </div>
               ))}
             </div>
@@ -5,21 +5,26 @@ import { TransportBar } from '../transport/TransportBar';
 import { TrackList } from '../tracks/TrackList';
 import { Timeline } from '../timeline/Timeline';
 import { GenerationPanel } from '../generation/GenerationPanel';
+import { MixerPanel } from '../mixer/MixerPanel';
 import { ClipPromptEditor } from '../generation/ClipPromptEditor';
 import { NewProjectDialog } from '../dialogs/NewProjectDialog';
 import { InstrumentPicker } from '../dialogs/InstrumentPicker';
 import { ExportDialog } from '../dialogs/ExportDialog';
 import { SettingsDialog } from '../dialogs/SettingsDialog';
+import { ProjectSettingsDialog } from '../dialogs/ProjectSettingsDialog';
 import { ProjectListDialog } from '../dialogs/ProjectListDialog';
 import { useAudioEngine } from '../../hooks/useAudioEngine';
 import { useProjectStore } from '../../store/projectStore';
 import { useUIStore } from '../../store/uiStore';
 import { useTransport } from '../../hooks/useTransport';
+import { resumePendingGenerations } from '../../services/generationPipeline';
 
 export function AppShell() {
   const { resumeOnGesture } = useAudioEngine();
   const project = useProjectStore((s) => s.project);
   const setShowNewProjectDialog = useUIStore((s) => s.setShowNewProjectDialog);
+  const showMixer = useUIStore((s) => s.showMixer);
+  const setShowMixer = useUIStore((s) => s.setShowMixer);
   const { isPlaying, play, pause, stop } = useTransport();
 
   // Resume AudioContext on first user interaction
@@ -34,6 +39,12 @@ export function AppShell() {
     }
   }, []);
 
+  // Pick up native-mode tasks that were still running when the page was last
+  // closed — on load and whenever another project is opened
+  useEffect(() => {
+    void resumePendingGenerations();
+  }, [project?.id]);
+
   // Keyboard shortcuts
   useEffect(() => {
     const handler = (e: KeyboardEvent) => {
@@ -52,11 +63,15 @@ export function AppShell() {
           if (isPlaying) pause();
           else play();
           break;
+        case 'KeyX':
+          if (e.ctrlKey || e.metaKey || e.altKey) return;
+          setShowMixer(!showMixer);
+          break;
       }
     };
     window.addEventListener('keydown', handler);
     return () => window.removeEventListener('keydown', handler);
-  }, [isPlaying, play, pause, stop]);
+  }, [isPlaying, play, pause, stop, showMixer, setShowMixer]);
 
   return (
     <div className="flex flex-col h-screen" onClick={handleClick}>
@@ -68,6 +83,7 @@ export function AppShell() {
         <Timeline />
       </div>
 
+      {project && showMixer && <MixerPanel />}
       {project && <GenerationPanel />}
       <StatusBar />
 
@@ -77,6 +93,7 @@ export function AppShell() {
       <InstrumentPicker />
       <ExportDialog />
       <SettingsDialog />
+      <ProjectSettingsDialog />
       <ProjectListDialog />
     </div>
   );
@@ -5,8 +5,11 @@ export function Toolbar() {
   const project = useProjectStore((s) => s.project);
   const setShowNewProjectDialog = useUIStore((s) => s.setShowNewProjectDialog);
   const setShowSettingsDialog = useUIStore((s) => s.setShowSettingsDialog);
+  const setShowProjectSettingsDialog = useUIStore((s) => s.setShowProjectSettingsDialog);
   const setShowExportDialog = useUIStore((s) => s.setShowExportDialog);
   const setShowProjectListDialog = useUIStore((s) => s.setShowProjectListDialog);
+  const showMixer = useUIStore((s) => s.showMixer);
+  const setShowMixer = useUIStore((s) => s.setShowMixer);
 
   return (
     <div className="flex items-center h-10 px-3 gap-2 bg-daw-surface border-b border-daw-border">
@@ -29,11 +32,29 @@ export function Toolbar() {
       >
         Export
       </button>
+      <button
+        onClick={() => setShowMixer(!showMixer)}
+        className={`px-3 py-1 text-xs font-medium rounded transition-colors ${
+          showMixer ? 'bg-daw-accent text-white' : 'bg-daw-surface-2 hover:bg-zinc-600'
+        }`}
+        disabled={!project}
+        title="Toggle mixer (X)"
+      >
+        Mixer
+      </button>
 
       <div className="flex-1 text-center">
-        <span className="text-sm font-medium text-zinc-300">
-          {project?.name ?? 'ACE-Step DAW'}
-        </span>
+        {project ? (
+          <button
+            onClick={() => setShowProjectSettingsDialog(true)}
+            className="px-2 py-0.5 text-sm font-medium text-zinc-300 rounded hover:bg-daw-surface-2 transition-colors"
+            title="Project settings"
+          >
+            {project.name}
+          </button>
+        ) : (
+          <span className="text-sm font-medium text-zinc-300">ACE-Step DAW</span>
+        )}
       </div>
 
       <button
@@ -0,0 +1,366 @@
+import { useEffect, useRef, useState } from 'react';
+import type { Track, ReturnBus } from '../../types/project';
+import { useProjectStore } from '../../store/projectStore';
+import { useUIStore } from '../../store/uiStore';
+import { TRACK_CATALOG } from '../../constants/tracks';
+import { DEFAULT_MASTER, DEFAULT_RETURN_BUSES, EFFECT_CATALOG } from '../../constants/effects';
+import { TrackEffectsPanel } from '../tracks/TrackEffectsPanel';
+import { LevelMeter } from '../tracks/LevelMeter';
+import { getAudioEngine } from '../../hooks/useAudioEngine';
+import { dbToGain, gainToDb } from '../../utils/db';
+import { formatPan } from '../../utils/pan';
+import { getTrackRows, getParentTrack, isGroupTrack } from '../../utils/trackTree';
+
+const FADER_HEIGHT = 120;
+const FADER_MIN_DB = -60;
+const FADER_MAX_DB = 0;
+const FADER_SCALE_DB = [0, -6, -12, -24, -48];
+const INSERT_SLOTS = 4;
+
+/** Mixer console: a channel strip per track, the returns and the master, docked under the timeline. */
+export function MixerPanel() {
+  const project = useProjectStore((s) => s.project);
+  const setShowMixer = useUIStore((s) => s.setShowMixer);
+  const collapsedGroupIds = useUIStore((s) => s.collapsedGroupIds);
+
+  if (!project) return null;
+
+  // Left to right in the same order the track list shows top to bottom
+  const rows = getTrackRows(project.tracks, collapsedGroupIds);
+  const returns = project.returns ?? DEFAULT_RETURN_BUSES;
+
+  return (
+    <div className="flex flex-col h-[340px] min-h-[340px] bg-daw-surface border-t border-daw-border">
+      <div className="flex items-center justify-between h-6 px-3 border-b border-daw-border">
+        <span className="text-[10px] font-medium text-zinc-400">Mixer</span>
+        <button
+          onClick={() => setShowMixer(false)}
+          className="text-zinc-500 hover:text-zinc-300 text-sm leading-none"
+          title="Close mixer"
+        >
+          ×
+        </button>
+      </div>
+
+      <div className="flex flex-1 min-h-0">
+        <div className="flex flex-1 min-w-0 overflow-x-auto">
+          {rows.map(({ track }) => (
+            <ChannelStrip
+              key={track.id}
+              track={track}
+              returns={returns}
+              output={getParentTrack(project.tracks, track)?.displayName ?? 'Master'}
+            />
+          ))}
+          {rows.length === 0 && (
+            <p className="self-center px-4 text-[11px] text-zinc-500">No tracks yet.</p>
+          )}
+        </div>
+        <div className="flex border-l border-daw-border">
+          {returns.map((bus) => (
+            <ReturnStrip key={bus.id} bus={bus} />
+          ))}
+          <MasterStrip />
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/** Fader position (0..1, linear in dB) for a linear gain; 0 is -∞. */
+function gainToFader(gain: number): number {
+  const db = gainToDb(gain);
+  if (db <= FADER_MIN_DB) return 0;
+  return Math.min(1, (db - FADER_MIN_DB) / (FADER_MAX_DB - FADER_MIN_DB));
+}
+
+function faderToGain(pos: number): number {
+  if (pos <= 0) return 0;
+  return dbToGain(FADER_MIN_DB + Math.min(1, pos) * (FADER_MAX_DB - FADER_MIN_DB));
+}
+
+function formatGainDb(gain: number): string {
+  const db = gainToDb(gain);
+  return db <= FADER_MIN_DB ? '-∞' : db.toFixed(1);
+}
+
+/** Vertical dB fader. Drag anywhere on it (Shift for fine moves), double-click for 0 dB. */
+function Fader({ value, onChange, automated, color }: {
+  value: number;
+  onChange: (gain: number) => void;
+  automated?: boolean;
+  color: string;
+}) {
+  const pos = gainToFader(value);
+
+  const handleMouseDown = (e: React.MouseEvent) => {
+    if (e.button !== 0) return;
+    e.preventDefault();
+    const startY = e.clientY;
+    const startPos = pos;
+
+    const onMouseMove = (ev: MouseEvent) => {
+      const scale = ev.shiftKey ? 0.2 : 1;
+      const next = Math.max(0, Math.min(1, startPos - ((ev.clientY - startY) / FADER_HEIGHT) * scale));
+      onChange(faderToGain(next));
+    };
+
+    const onMouseUp = () => {
+      window.removeEventListener('mousemove', onMouseMove);
+      window.removeEventListener('mouseup', onMouseUp);
+    };
+
+    window.addEventListener('mousemove', onMouseMove);
+    window.addEventListener('mouseup', onMouseUp);
+  };
+
+  return (
+    <div
+      className="relative w-6 cursor-ns-resize"
+      style={{ height: FADER_HEIGHT }}
+      onMouseDown={handleMouseDown}
+      onDoubleClick={() => onChange(1)}
+      title={`${formatGainDb(value)} dB${automated ? ' (automated)' : ''} — double-click for 0 dB`}
+    >
+      <div className="absolute left-1/2 top-0 bottom-0 w-1 -translate-x-1/2 rounded bg-daw-bg" />
+      {FADER_SCALE_DB.map((db) => (
+        <div
+          key={db}
+          className="absolute left-0 w-1.5 h-px bg-zinc-600"
+          style={{ bottom: ((db - FADER_MIN_DB) / (FADER_MAX_DB - FADER_MIN_DB)) * FADER_HEIGHT }}
+        />
+      ))}
+      <div
+        className={`absolute left-0.5 right-0.5 h-2.5 -mb-[5px] rounded-sm border ${
+          automated ? 'border-daw-accent' : 'border-zinc-400'
+        }`}
+        style={{ bottom: pos * FADER_HEIGHT, backgroundColor: color }}
+      />
+    </div>
+  );
+}
+
+/** While volume/pan automation plays, follow the values the live TrackNode is applying. */
+function useAutomatedMix(track: Track) {
+  const automated = (track.automation ?? []).some(
+    (l) => (l.target.type === 'volume' || l.target.type === 'pan') && l.points.length > 0,
+  );
+  const [live, setLive] = useState<{ volume: number | null; pan: number | null }>({ volume: null, pan: null });
+
+  useEffect(() => {
+    if (!automated) {
+      setLive({ volume: null, pan: null });
+      return;
+    }
+    let rafId = 0;
+    const tick = () => {
+      const mix = getAudioEngine().getTrackAutomatedMix(track.id);
+      const volume = mix?.volume ?? null;
+      const pan = mix?.pan ?? null;
+      setLive((prev) => (prev.volume === volume && prev.pan === pan ? prev : { volume, pan }));
+      rafId = requestAnimationFrame(tick);
+    };
+    rafId = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(rafId);
+  }, [automated, track.id]);
+
+  return live;
+}
+
+function ChannelStrip({ track, returns, output }: { track: Track; returns: ReturnBus[]; output: string }) {
+  const updateTrack = useProjectStore((s) => s.updateTrack);
+  const setTrackSend = useProjectStore((s) => s.setTrackSend);
+  const [fxPanel, setFxPanel] = useState<{ x: number; y: number } | null>(null);
+  const stripRef = useRef<HTMLDivElement>(null);
+  const live = useAutomatedMix(track);
+  const info = TRACK_CATALOG[track.trackName];
+
+  const effects = track.effects ?? [];
+  const volume = live.volume ?? track.volume;
+  const pan = live.pan ?? track.pan ?? 0;
+
+  const openInserts = () => {
+    const rect = stripRef.current?.getBoundingClientRect();
+    if (rect) setFxPanel({ x: rect.right + 4, y: Math.max(8, rect.top - 160) });
+  };
+
+  return (
+    <div
+      ref={stripRef}
+      className={`flex flex-col items-stretch gap-1 w-[84px] min-w-[84px] px-1.5 py-1.5 border-r border-daw-border ${
+        isGroupTrack(track) ? 'bg-daw-surface-2/40' : ''
+      }`}
+      style={{ borderTop: `3px solid ${track.color}` }}
+    >
+      <div className="flex items-center gap-1 min-w-0" title={info.displayName}>
+        <span className="text-xs">{info.emoji}</span>
+        <span className="text-[10px] font-medium text-zinc-200 truncate">{track.displayName}</span>
+      </div>
+
+      {/* Insert slots */}
+      <div className="space-y-px">
+        {Array.from({ length: Math.max(INSERT_SLOTS, effects.length) }, (_, i) => {
+          const effect = effects[i];
+          return (
+            <button
+              key={effect?.id ?? `empty-${i}`}
+              onClick={openInserts}
+              className={`block w-full h-3.5 px-1 text-left text-[9px] leading-[14px] rounded-sm truncate transition-colors ${
+                effect
+                  ? effect.bypassed
+                    ? 'bg-daw-bg text-zinc-600 line-through'
+                    : 'bg-daw-surface-2 text-zinc-300 hover:bg-zinc-600'
+                  : 'bg-daw-bg text-zinc-700 hover:text-zinc-400'
+              }`}
+              title={effect ? EFFECT_CATALOG[effect.type].displayName : 'Add insert'}
+            >
+              {effect ? EFFECT_CATALOG[effect.type].shortName : '—'}
+            </button>
+          );
+        })}
+      </div>
+
+      {/* Send slots */}
+      <div className="space-y-0.5">
+        {returns.map((bus) => {
+          const level = track.sends?.find((s) => s.returnId === bus.id)?.level ?? 0;
+          return (
+            <div key={bus.id} className="flex items-center gap-1" title={`Send to ${bus.name}: ${Math.round(level * 100)}%`}>
+              <span className="w-5 text-[8px] text-zinc-500 truncate">{bus.type === 'reverb' ? 'REV' : 'DLY'}</span>
+              <input
+                type="range"
+                min="0"
+                max="100"
+                value={Math.round(level * 100)}
+                onChange={(e) => setTrackSend(track.id, bus.id, parseInt(e.target.value) / 100)}
+                onDoubleClick={() => setTrackSend(track.id, bus.id, 0)}
+                className="flex-1 min-w-0 h-1"
+              />
+            </div>
+          );
+        })}
+      </div>
+
+      <input
+        type="range"
+        min="-100"
+        max="100"
+        value={Math.round(pan * 100)}
+        onChange={(e) => updateTrack(track.id, { pan: parseInt(e.target.value) / 100 })}
+        onDoubleClick={() => updateTrack(track.id, { pan: 0 })}
+        className="w-full h-1 mt-0.5"
+        title={`Pan: ${formatPan(pan)}${live.pan !== null ? ' (automated)' : ''} (double-click to center)`}
+      />
+
+      <div className="flex justify-center gap-1.5 mt-1">
+        <Fader
+          value={volume}
+          onChange={(v) => updateTrack(track.id, { volume: v })}
+          automated={live.volume !== null}
+          color={track.color}
+        />
+        <LevelMeter getLevels={() => getAudioEngine().getTrackLevels(track.id)} height={FADER_HEIGHT} />
+      </div>
+
+      <div className="text-center text-[9px] text-zinc-400 tabular-nums">{formatGainDb(volume)} dB</div>
+
+      <div className="flex justify-center gap-0.5">
+        <button
+          onClick={() => updateTrack(track.id, { muted: !track.muted })}
+          className={`w-6 h-5 text-[10px] font-bold rounded transition-colors ${
+            track.muted
+              ? 'bg-amber-600 text-white'
+              : 'bg-daw-surface-2 text-zinc-500 hover:text-zinc-300'
+          }`}
+          title="Mute"
+        >
+          M
+        </button>
+        <button
+          onClick={() => updateTrack(track.id, { soloed: !track.soloed })}
+          className={`w-6 h-5 text-[10px] font-bold rounded transition-colors ${
+            track.soloed
+              ? 'bg-emerald-600 text-white'
+              : 'bg-daw-surface-2 text-zinc-500 hover:text-zinc-300'
+          }`}
+          title="Solo"
+        >
+          S
+        </button>
+      </div>
+
+      <div className="text-center text-[8px] text-zinc-500 truncate" title={`Output: ${output}`}>→ {output}</div>
+
+      {fxPanel && (
+        <TrackEffectsPanel
+          track={track}
+          x={fxPanel.x}
+          y={fxPanel.y}
+          onClose={() => setFxPanel(null)}
+        />
+      )}
+    </div>
+  );
+}
+
+function ReturnStrip({ bus }: { bus: ReturnBus }) {
+  const updateReturnBus = useProjectStore((s) => s.updateReturnBus);
+
+  return (
+    <div
+      className="flex flex-col items-stretch justify-end gap-1 w-[64px] min-w-[64px] px-1.5 py-1.5 border-r border-daw-border"
+      style={{ borderTop: '3px solid #52525b' }}
+    >
+      <div className="text-[10px] font-medium text-zinc-300 truncate mb-auto" title={bus.name}>{bus.name}</div>
+      <div className="flex justify-center">
+        <Fader value={bus.volume} onChange={(v) => updateReturnBus(bus.id, { volume: v })} color="#52525b" />
+      </div>
+      <div className="text-center text-[9px] text-zinc-400 tabular-nums">{formatGainDb(bus.volume)} dB</div>
+      <div className="flex justify-center">
+        <button
+          onClick={() => updateReturnBus(bus.id, { muted: !bus.muted })}
+          className={`w-6 h-5 text-[10px] font-bold rounded transition-colors ${
+            bus.muted
+              ? 'bg-amber-600 text-white'
+              : 'bg-daw-surface-2 text-zinc-500 hover:text-zinc-300'
+          }`}
+          title="Mute return"
+        >
+          M
+        </button>
+      </div>
+    </div>
+  );
+}
+
+function MasterStrip() {
+  const master = useProjectStore((s) => s.project?.master ?? DEFAULT_MASTER);
+  const updateMaster = useProjectStore((s) => s.updateMaster);
+
+  return (
+    <div
+      className="flex flex-col items-stretch justify-end gap-1 w-[84px] min-w-[84px] px-1.5 py-1.5"
+      style={{ borderTop: '3px solid #a1a1aa' }}
+    >
+      <div className="text-[10px] font-bold text-zinc-300 mb-auto">Master</div>
+      <div className="flex justify-center gap-1.5">
+        <Fader value={master.volume} onChange={(v) => updateMaster({ volume: v })} color="#a1a1aa" />
+        <LevelMeter getLevels={() => getAudioEngine().getMasterLevels()} height={FADER_HEIGHT} />
+      </div>
+      <div className="text-center text-[9px] text-zinc-400 tabular-nums">{formatGainDb(master.volume)} dB</div>
+      <div className="flex justify-center">
+        <button
+          onClick={() => updateMaster({ limiter: { ...master.limiter, enabled: !master.limiter.enabled } })}
+          className={`w-8 h-5 text-[8px] font-bold rounded transition-colors ${
+            master.limiter.enabled
+              ? 'bg-daw-accent text-white'
+              : 'bg-daw-surface-2 text-zinc-500 hover:text-zinc-300'
+          }`}
+          title="True-peak limiter"
+        >
+          LIM
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,187 @@
+import { useCallback } from 'react';
+import type { Track, AutomationLane, AutomationPoint } from '../../types/project';
+import { useUIStore } from '../../store/uiStore';
+import { useProjectStore } from '../../store/projectStore';
+import { snapToGrid } from '../../utils/time';
+import { getTempoMap, type TempoMap } from '../../utils/tempoMap';
+import {
+  AUTOMATION_SNAP_DIVISION,
+  getAutomationParamInfo,
+  type AutomationParamInfo,
+} from '../../constants/automation';
+
+interface AutomationLanesProps {
+  track: Track;
+}
+
+const LANE_HEIGHT = 48;
+const LANE_PADDING = 4;
+const POINT_RADIUS = 3.5;
+
+/** A track's automation lanes, drawn under its TrackLane (rows match AutomationLaneHeaders). */
+export function AutomationLanes({ track }: AutomationLanesProps) {
+  const pixelsPerSecond = useUIStore((s) => s.pixelsPerSecond);
+  const project = useProjectStore((s) => s.project);
+
+  if (!project) return null;
+  const totalWidth = project.totalDuration * pixelsPerSecond;
+
+  return (
+    <>
+      {(track.automation ?? []).map((lane) => {
+        const info = getAutomationParamInfo(track, lane.target);
+        // Keep the row so lanes stay aligned with their headers
+        if (!info) return <div key={lane.id} className="h-12 border-b border-daw-border" style={{ width: totalWidth }} />;
+        return (
+          <LaneEditor
+            key={lane.id}
+            track={track}
+            lane={lane}
+            info={info}
+            width={totalWidth}
+            tempo={getTempoMap(project)}
+            totalDuration={project.totalDuration}
+          />
+        );
+      })}
+      {/* Spacer for the "+ Automation lane" header row */}
+      <div className="h-6 border-b border-daw-border bg-daw-bg/50" style={{ width: totalWidth }} />
+    </>
+  );
+}
+
+function toNormalized(value: number, info: AutomationParamInfo): number {
+  if (info.log) return Math.log(value / info.min) / Math.log(info.max / info.min);
+  return (value - info.min) / (info.max - info.min);
+}
+
+function fromNormalized(n: number, info: AutomationParamInfo): number {
+  const t = Math.max(0, Math.min(1, n));
+  if (info.log) return info.min * Math.pow(info.max / info.min, t);
+  return info.min + t * (info.max - info.min);
+}
+
+function LaneEditor({ track, lane, info, width, tempo, totalDuration }: {
+  track: Track;
+  lane: AutomationLane;
+  info: AutomationParamInfo;
+  width: number;
+  tempo: TempoMap;
+  totalDuration: number;
+}) {
+  const pixelsPerSecond = useUIStore((s) => s.pixelsPerSecond);
+  const updateAutomationLane = useProjectStore((s) => s.updateAutomationLane);
+
+  const innerHeight = LANE_HEIGHT - LANE_PADDING * 2;
+  const valueToY = (v: number) => LANE_PADDING + (1 - toNormalized(v, info)) * innerHeight;
+
+  const setPoints = useCallback((points: AutomationPoint[]) => {
+    updateAutomationLane(track.id, lane.id, { points });
+  }, [track.id, lane.id, updateAutomationLane]);
+
+  // Drag point `index` of `points`; it stays between its neighbours so order is kept
+  const startDrag = useCallback((points: AutomationPoint[], index: number, rect: DOMRect) => {
+    const minTime = index > 0 ? points[index - 1].time : 0;
+    const maxTime = index < points.length - 1 ? points[index + 1].time : totalDuration;
+
+    const onMouseMove = (ev: MouseEvent) => {
+      let time = (ev.clientX - rect.left) / pixelsPerSecond;
+      // Shift for free placement
+      if (!ev.shiftKey) time = snapToGrid(time, tempo, AUTOMATION_SNAP_DIVISION);
+      time = Math.max(minTime, Math.min(maxTime, time));
+      const value = fromNormalized(1 - (ev.clientY - rect.top - LANE_PADDING) / innerHeight, info);
+      const next = [...points];
+      next[index] = { time, value };
+      setPoints(next);
+    };
+
+    const onMouseUp = () => {
+      window.removeEventListener('mousemove', onMouseMove);
+      window.removeEventListener('mouseup', onMouseUp);
+    };
+
+    window.addEventListener('mousemove', onMouseMove);
+    window.addEventListener('mouseup', onMouseUp);
+  }, [pixelsPerSecond, tempo, totalDuration, innerHeight, info, setPoints]);
+
+  // Click on the lane adds a breakpoint and keeps dragging it
+  const handleLaneMouseDown = useCallback((e: React.MouseEvent<HTMLDivElement>) => {
+    if (e.button !== 0) return;
+    e.preventDefault();
+    const rect = e.currentTarget.getBoundingClientRect();
+    let time = (e.clientX - rect.left) / pixelsPerSecond;
+    if (!e.shiftKey) time = snapToGrid(time, tempo, AUTOMATION_SNAP_DIVISION);
+    time = Math.max(0, Math.min(totalDuration, time));
+    const value = fromNormalized(1 - (e.clientY - rect.top - LANE_PADDING) / innerHeight, info);
+
+    const points = [...lane.points, { time, value }].sort((a, b) => a.time - b.time);
+    setPoints(points);
+    startDrag(points, points.findIndex((p) => p.time === time && p.value === value), rect);
+  }, [lane.points, pixelsPerSecond, tempo, totalDuration, innerHeight, info, setPoints, startDrag]);
+
+  const handlePointMouseDown = useCallback((e: React.MouseEvent, index: number) => {
+    if (e.button !== 0) return;
+    e.preventDefault();
+    e.stopPropagation();
+    const laneEl = (e.currentTarget as Element).closest('[data-automation-lane]');
+    if (!laneEl) return;
+    startDrag(lane.points, index, laneEl.getBoundingClientRect());
+  }, [lane.points, startDrag]);
+
+  const removePoint = useCallback((e: React.MouseEvent, index: number) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setPoints(lane.points.filter((_, i) => i !== index));
+  }, [lane.points, setPoints]);
+
+  const points = lane.points;
+  const lineValue = (i: number) => valueToY(points[i].value);
+  let path = '';
+  if (points.length > 0) {
+    // Held flat before the first point and after the last
+    path = `M0,${lineValue(0)} ` + points.map((p, i) => `L${p.time * pixelsPerSecond},${lineValue(i)}`).join(' ')
+      + ` L${width},${lineValue(points.length - 1)}`;
+  }
+
+  return (
+    <div
+      data-automation-lane
+      className="relative h-12 border-b border-daw-border bg-daw-bg/50 cursor-crosshair"
+      style={{ width }}
+      onMouseDown={handleLaneMouseDown}
+      title={`${info.label} — click to add, drag to move, double-click a point to remove (Shift: no snap)`}
+    >
+      <svg className="absolute inset-0 overflow-visible" width={width} height={LANE_HEIGHT}>
+        {points.length === 0 ? (
+          // No points: the static value applies
+          <line
+            x1={0} x2={width} y1={valueToY(info.value)} y2={valueToY(info.value)}
+            stroke={track.color} strokeOpacity={0.4} strokeDasharray="4 4"
+          />
+        ) : (
+          <>
+            <path d={`${path} L${width},${LANE_HEIGHT} L0,${LANE_HEIGHT} Z`} fill={track.color} fillOpacity={0.12} />
+            <path d={path} fill="none" stroke={track.color} strokeWidth={1.5} />
+          </>
+        )}
+        {points.map((p, i) => (
+          <circle
+            key={i}
+            cx={p.time * pixelsPerSecond}
+            cy={lineValue(i)}
+            r={POINT_RADIUS}
+            fill={track.color}
+            stroke="white"
+            strokeWidth={1}
+            className="cursor-move"
+            onMouseDown={(e) => handlePointMouseDown(e, i)}
+            onDoubleClick={(e) => removePoint(e, i)}
+            onContextMenu={(e) => removePoint(e, i)}
+          >
+            <title>{`${info.format(p.value)} @ ${p.time.toFixed(2)}s`}</title>
+          </circle>
+        ))}
+      </svg>
+    </div>
+  );
+}
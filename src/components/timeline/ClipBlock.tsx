@@ -1,10 +1,15 @@
 import { useRef, useCallback, useState } from 'react';
-import type { Clip, Track } from '../../types/project';
+import type { Clip, Track, FadeCurve } from '../../types/project';
 import { useUIStore } from '../../store/uiStore';
 import { useProjectStore } from '../../store/projectStore';
 import { useGeneration } from '../../hooks/useGeneration';
 import { hexToRgba } from '../../utils/color';
 import { snapToGrid } from '../../utils/time';
+import { buildTempoMap, getTempoMap } from '../../utils/tempoMap';
+import { clampFades, fadeCurveValue } from '../../engine/fades';
+import { DEFAULT_BPM, DEFAULT_TIME_SIGNATURE, DEFAULT_FADE_CURVE, FADE_CURVES, CLIP_GAIN_MIN_DB, CLIP_GAIN_MAX_DB } from '../../constants/defaults';
+import { dbToGain } from '../../utils/db';
+import { hasPlayableAudio } from '../../utils/clipAudio';
 
 interface ClipBlockProps {
   clip: Clip;
@@ -12,6 +17,8 @@ interface ClipBlockProps {
 }
 
 const EDGE_HANDLE_PX = 6;
+const FADE_HANDLE_PX = 8;
+const FADE_SHAPE_POINTS = 16;
 const MIN_CLIP_DURATION = 0.5;
 
 type DragMode = 'move' | 'resize-left' | 'resize-right';
@@ -59,10 +66,10 @@ export function ClipBlock({ clip, track }: ClipBlockProps) {
     const startX = e.clientX;
     const origStart = clip.startTime;
     const origDuration = clip.duration;
-    const hasAudio = clip.generationStatus === 'ready' && clip.audioDuration != null;
+    const hasAudio = hasPlayableAudio(clip) && clip.audioDuration != null;
     const origAudioOffset = clip.audioOffset ?? 0;
     const origAudioDuration = clip.audioDuration ?? clip.duration;
-    const bpm = project?.bpm ?? 120;
+    const tempo = project ? getTempoMap(project) : buildTempoMap(DEFAULT_BPM, DEFAULT_TIME_SIGNATURE);
     const totalDuration = project?.totalDuration ?? 600;
     dragRef.current = false;
 
@@ -74,13 +81,13 @@ export function ClipBlock({ clip, track }: ClipBlockProps) {
       const deltaSec = dx / pixelsPerSecond;
 
       if (mode === 'move') {
-        let newStart = snapToGrid(origStart + deltaSec, bpm, 1);
+        let newStart = snapToGrid(origStart + deltaSec, tempo, 1);
         newStart = Math.max(0, newStart);
         if (hasAudio) newStart = Math.min(newStart, totalDuration - origDuration);
         updateClip(clip.id, { startTime: newStart });
       } else if (mode === 'resize-left') {
         // Dragging left edge: crops from the start of the audio
-        let newStart = snapToGrid(origStart + deltaSec, bpm, 1);
+        let newStart = snapToGrid(origStart + deltaSec, tempo, 1);
         newStart = Math.max(0, newStart);
         const maxStart = origStart + origDuration - MIN_CLIP_DURATION;
         newStart = Math.min(newStart, maxStart);
@@ -104,7 +111,7 @@ export function ClipBlock({ clip, track }: ClipBlockProps) {
         updateClip(clip.id, { startTime: newStart, duration: newDuration, audioOffset: newAudioOffset });
       } else {
         // Dragging right edge: crops from the end of the audio
-        let newDuration = snapToGrid(origDuration + deltaSec, bpm, 1);
+        let newDuration = snapToGrid(origStart + origDuration + deltaSec, tempo, 1) - origStart;
         newDuration = Math.max(MIN_CLIP_DURATION, newDuration);
         if (hasAudio) {
           // Generated clip: can't extend past audio buffer or project end
@@ -123,7 +130,35 @@ export function ClipBlock({ clip, track }: ClipBlockProps) {
 
     window.addEventListener('mousemove', onMouseMove);
     window.addEventListener('mouseup', onMouseUp);
-  }, [clip.id, clip.startTime, clip.duration, clip.audioOffset, clip.audioDuration, clip.generationStatus, pixelsPerSecond, project, updateClip, getDragMode]);
+  }, [clip.id, clip.startTime, clip.duration, clip.audioOffset, clip.audioDuration, clip.generationStatus, clip.isolatedAudioKey, pixelsPerSecond, project, updateClip, getDragMode]);
+
+  // Fade handles: drag inwards from a clip edge to lengthen its fade
+  const handleFadeMouseDown = useCallback((e: React.MouseEvent, edge: 'in' | 'out') => {
+    if (e.button !== 0) return;
+    e.stopPropagation();
+    e.preventDefault();
+
+    const startX = e.clientX;
+    const origFade = (edge === 'in' ? clip.fadeIn : clip.fadeOut) ?? 0;
+    const otherFade = (edge === 'in' ? clip.fadeOut : clip.fadeIn) ?? 0;
+    const maxFade = Math.max(0, clip.duration - otherFade);
+    // Swallow the click that follows so the clip isn't (de)selected
+    dragRef.current = true;
+
+    const onMouseMove = (ev: MouseEvent) => {
+      const deltaSec = (ev.clientX - startX) / pixelsPerSecond;
+      const fade = Math.max(0, Math.min(maxFade, origFade + (edge === 'in' ? deltaSec : -deltaSec)));
+      updateClip(clip.id, edge === 'in' ? { fadeIn: fade } : { fadeOut: fade });
+    };
+
+    const onMouseUp = () => {
+      window.removeEventListener('mousemove', onMouseMove);
+      window.removeEventListener('mouseup', onMouseUp);
+    };
+
+    window.addEventListener('mousemove', onMouseMove);
+    window.addEventListener('mouseup', onMouseUp);
+  }, [clip.id, clip.duration, clip.fadeIn, clip.fadeOut, pixelsPerSecond, updateClip]);
 
   const handleClick = useCallback((e: React.MouseEvent) => {
     e.stopPropagation();
@@ -186,6 +221,14 @@ export function ClipBlock({ clip, track }: ClipBlockProps) {
   const visiblePeakCount = endPeakIdx - startPeakIdx;
   const numBars = peaks ? Math.min(visiblePeakCount, Math.floor(peakWidthPx / 2)) : 0;
   const barSpacing = numBars > 0 ? peakWidthPx / numBars : 0;
+  // Bars scale with clip gain (capped at full height) and run backwards when reversed
+  const peakGain = dbToGain(clip.gain ?? 0);
+
+  // Fades only shape audio, so they're editable once the clip has some
+  const hasAudio = hasPlayableAudio(clip);
+  const [fadeIn, fadeOut] = clampFades(clip.fadeIn ?? 0, clip.fadeOut ?? 0, clip.duration);
+  const fadeInPx = fadeIn * pixelsPerSecond;
+  const fadeOutPx = fadeOut * pixelsPerSecond;
 
   return (
     <>
@@ -221,9 +264,10 @@ export function ClipBlock({ clip, track }: ClipBlockProps) {
               className="opacity-60 ml-0.5"
             >
               {Array.from({ length: numBars }, (_, i) => {
-                const peakIdx = startPeakIdx + Math.floor((i / numBars) * visiblePeakCount);
-                const peak = peaks[Math.min(peakIdx, peaks.length - 1)];
-                const h = peak * 80;
+                const step = Math.floor((i / numBars) * visiblePeakCount);
+                const peakIdx = clip.reversed ? endPeakIdx - 1 - step : startPeakIdx + step;
+                const peak = peaks[Math.max(0, Math.min(peakIdx, peaks.length - 1))];
+                const h = Math.min(peak * peakGain * 80, 100);
                 return (
                   <rect
                     key={i}
@@ -239,6 +283,38 @@ export function ClipBlock({ clip, track }: ClipBlockProps) {
           </div>
         )}
 
+        {/* Fade shapes and handles */}
+        {hasAudio && (
+          <>
+            <svg
+              className="absolute inset-0 pointer-events-none"
+              width="100%"
+              height="100%"
+              viewBox={`0 0 ${Math.max(width, 4)} 100`}
+              preserveAspectRatio="none"
+            >
+              {fadeInPx > 0 && (
+                <FadeShape x0={0} x1={fadeInPx} curve={clip.fadeInCurve ?? DEFAULT_FADE_CURVE} />
+              )}
+              {fadeOutPx > 0 && (
+                <FadeShape x0={width} x1={width - fadeOutPx} curve={clip.fadeOutCurve ?? DEFAULT_FADE_CURVE} />
+              )}
+            </svg>
+            <div
+              className="absolute top-0 z-20 bg-white/80 border border-zinc-900 rounded-[1px] cursor-ew-resize"
+              style={{ width: FADE_HANDLE_PX, height: FADE_HANDLE_PX, left: Math.max(fadeInPx - FADE_HANDLE_PX / 2, EDGE_HANDLE_PX) }}
+              onMouseDown={(e) => handleFadeMouseDown(e, 'in')}
+              title={`Fade in ${fadeIn.toFixed(2)}s`}
+            />
+            <div
+              className="absolute top-0 z-20 bg-white/80 border border-zinc-900 rounded-[1px] cursor-ew-resize"
+              style={{ width: FADE_HANDLE_PX, height: FADE_HANDLE_PX, right: Math.max(fadeOutPx - FADE_HANDLE_PX / 2, EDGE_HANDLE_PX) }}
+              onMouseDown={(e) => handleFadeMouseDown(e, 'out')}
+              title={`Fade out ${fadeOut.toFixed(2)}s`}
+            />
+          </>
+        )}
+
         {/* Label */}
         <div className="absolute top-0 left-1.5 right-1.5 text-[9px] font-medium text-white truncate leading-4 z-10 drop-shadow-sm pointer-events-none">
           {clip.prompt || '(no prompt)'}
@@ -255,6 +331,11 @@ export function ClipBlock({ clip, track }: ClipBlockProps) {
             Error
           </div>
         )}
+        {clip.generationStatus === 'stale' && (
+          <div className="absolute bottom-0 left-1.5 text-[8px] text-amber-300 truncate pointer-events-none">
+            Stale
+          </div>
+        )}
         {clip.generationStatus === 'ready' && clip.inferredMetas && (
           <div className="absolute bottom-0 left-1.5 right-1.5 text-[8px] text-zinc-400 truncate pointer-events-none">
             {[
@@ -276,14 +357,40 @@ export function ClipBlock({ clip, track }: ClipBlockProps) {
           onDelete={() => { closeCtxMenu(); removeClip(clip.id); }}
           onClose={closeCtxMenu}
           hasPrompt={!!clip.prompt}
+          fadeInCurve={hasAudio ? clip.fadeInCurve ?? DEFAULT_FADE_CURVE : null}
+          fadeOutCurve={hasAudio ? clip.fadeOutCurve ?? DEFAULT_FADE_CURVE : null}
+          onFadeCurveChange={(edge, curve) => updateClip(clip.id, edge === 'in' ? { fadeInCurve: curve } : { fadeOutCurve: curve })}
+          gain={clip.gain ?? 0}
+          onGainChange={(gain) => updateClip(clip.id, { gain })}
+          polarityInverted={clip.polarityInverted ?? false}
+          onTogglePolarity={() => updateClip(clip.id, { polarityInverted: !clip.polarityInverted })}
+          reversed={clip.reversed ?? false}
+          onToggleReverse={() => updateClip(clip.id, { reversed: !clip.reversed })}
         />
       )}
     </>
   );
 }
 
+/** Darkens the area above a fade's gain curve, from the clip edge `x0` to where the fade ends at `x1`. */
+function FadeShape({ x0, x1, curve }: { x0: number; x1: number; curve: FadeCurve }) {
+  const points: string[] = [];
+  for (let i = 0; i <= FADE_SHAPE_POINTS; i++) {
+    const t = i / FADE_SHAPE_POINTS;
+    points.push(`${x0 + (x1 - x0) * t},${100 - fadeCurveValue(t, curve) * 100}`);
+  }
+  return (
+    <>
+      <polygon points={`${x0},0 ${points.join(' ')}`} fill="rgba(0,0,0,0.35)" />
+      <polyline points={points.join(' ')} fill="none" stroke="rgba(255,255,255,0.6)" strokeWidth={1} vectorEffect="non-scaling-stroke" />
+    </>
+  );
+}
+
 function ClipContextMenu({
   x, y, onEdit, onGenerate, onDuplicate, onDelete, onClose, hasPrompt,
+  fadeInCurve, fadeOutCurve, onFadeCurveChange,
+  gain, onGainChange, polarityInverted, onTogglePolarity, reversed, onToggleReverse,
 }: {
   x: number;
   y: number;
@@ -293,6 +400,16 @@ function ClipContextMenu({
   onDelete: () => void;
   onClose: () => void;
   hasPrompt: boolean;
+  /** Null when the clip has no audio to fade. */
+  fadeInCurve: FadeCurve | null;
+  fadeOutCurve: FadeCurve | null;
+  onFadeCurveChange: (edge: 'in' | 'out', curve: FadeCurve) => void;
+  gain: number;
+  onGainChange: (gain: number) => void;
+  polarityInverted: boolean;
+  onTogglePolarity: () => void;
+  reversed: boolean;
+  onToggleReverse: () => void;
 }) {
   return (
     <>
@@ -321,6 +438,40 @@ function ClipContextMenu({
           Duplicate
         </button>
         <div className="my-1 border-t border-daw-border" />
+        <label className="flex items-center gap-2 px-3 py-1 text-xs text-zinc-400">
+          Gain
+          <input
+            type="range"
+            min={CLIP_GAIN_MIN_DB}
+            max={CLIP_GAIN_MAX_DB}
+            step={0.5}
+            value={gain}
+            onChange={(e) => onGainChange(parseFloat(e.target.value))}
+            onDoubleClick={() => onGainChange(0)}
+            className="flex-1 h-1 accent-daw-accent"
+          />
+          <span className="w-12 text-right text-zinc-300 tabular-nums">{gain > 0 ? '+' : ''}{gain.toFixed(1)} dB</span>
+        </label>
+        <button
+          onClick={onTogglePolarity}
+          className="w-full text-left px-3 py-1.5 text-xs text-zinc-200 hover:bg-daw-surface-2 transition-colors"
+        >
+          {polarityInverted ? '✓ ' : ''}Invert Polarity
+        </button>
+        <button
+          onClick={onToggleReverse}
+          className="w-full text-left px-3 py-1.5 text-xs text-zinc-200 hover:bg-daw-surface-2 transition-colors"
+        >
+          {reversed ? '✓ ' : ''}Reverse
+        </button>
+        {fadeInCurve && fadeOutCurve && (
+          <>
+            <div className="my-1 border-t border-daw-border" />
+            <FadeCurveSelect label="Fade in" value={fadeInCurve} onChange={(c) => onFadeCurveChange('in', c)} />
+            <FadeCurveSelect label="Fade out" value={fadeOutCurve} onChange={(c) => onFadeCurveChange('out', c)} />
+          </>
+        )}
+        <div className="my-1 border-t border-daw-border" />
         <button
           onClick={onDelete}
           className="w-full text-left px-3 py-1.5 text-xs text-red-400 hover:bg-red-900/30 transition-colors"
@@ -331,3 +482,24 @@ function ClipContextMenu({
     </>
   );
 }
+
+function FadeCurveSelect({ label, value, onChange }: {
+  label: string;
+  value: FadeCurve;
+  onChange: (curve: FadeCurve) => void;
+}) {
+  return (
+    <label className="flex items-center justify-between gap-2 px-3 py-1 text-xs text-zinc-400">
+      {label}
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value as FadeCurve)}
+        className="px-1 py-0.5 text-xs bg-daw-bg border border-daw-border rounded text-zinc-200 focus:outline-none focus:border-daw-accent"
+      >
+        {FADE_CURVES.map((c) => (
+          <option key={c.value} value={c.value}>{c.label}</option>
+        ))}
+      </select>
+    </label>
+  );
+}
@@ -1,6 +1,6 @@
 import { useProjectStore } from '../../store/projectStore';
 import { useUIStore } from '../../store/uiStore';
-import { getBeatDuration, getBarDuration } from '../../utils/time';
+import { getBeatsInRange, getTempoMap } from '../../utils/tempoMap';
 
 export function GridOverlay() {
   const project = useProjectStore((s) => s.project);
@@ -8,15 +8,13 @@ export function GridOverlay() {
 
   if (!project) return null;
 
-  const beatDuration = getBeatDuration(project.bpm);
-  const barDuration = getBarDuration(project.bpm, project.timeSignature);
   const totalWidth = project.totalDuration * pixelsPerSecond;
 
-  const lines: { x: number; isBar: boolean }[] = [];
-  for (let t = 0; t <= project.totalDuration; t += beatDuration) {
-    const isBar = Math.abs(t % barDuration) < 0.001 || Math.abs((t % barDuration) - barDuration) < 0.001;
-    lines.push({ x: t * pixelsPerSecond, isBar });
-  }
+  // Include a line sitting exactly on the project end
+  const lines = getBeatsInRange(getTempoMap(project), 0, project.totalDuration + 0.001).map(({ time, isBar }) => ({
+    x: time * pixelsPerSecond,
+    isBar,
+  }));
 
   return (
     <div className="absolute inset-0 pointer-events-none" style={{ width: totalWidth }}>
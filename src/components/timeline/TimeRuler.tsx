@@ -1,40 +1,154 @@
-import { useCallback } from 'react';
+import { useCallback, useState } from 'react';
+import type { TempoChange } from '../../types/project';
 import { useProjectStore } from '../../store/projectStore';
 import { useUIStore } from '../../store/uiStore';
+import { useTransportStore } from '../../store/transportStore';
 import { useTransport } from '../../hooks/useTransport';
-import { getBarDuration } from '../../utils/time';
+import { snapToGrid } from '../../utils/time';
+import { barToTime, getTempoAt, getTempoMap, timeToBeats, beatsToBarsBeats } from '../../utils/tempoMap';
+import { TIME_SIGNATURES } from '../../constants/tracks';
+import { MIN_BPM, MAX_BPM } from '../../constants/defaults';
+
+type LoopDragMode = 'move' | 'start' | 'end';
 
 export function TimeRuler() {
   const project = useProjectStore((s) => s.project);
   const pixelsPerSecond = useUIStore((s) => s.pixelsPerSecond);
+  const loopEnabled = useTransportStore((s) => s.loopEnabled);
+  const loopStart = useTransportStore((s) => s.loopStart);
+  const loopEnd = useTransportStore((s) => s.loopEnd);
+  const setLoopRegion = useTransportStore((s) => s.setLoopRegion);
+  const addTempoChange = useProjectStore((s) => s.addTempoChange);
   const { seek } = useTransport();
+  const [editing, setEditing] = useState<{ changeId: string; x: number; y: number } | null>(null);
 
-  const handleClick = useCallback((e: React.MouseEvent<HTMLDivElement>) => {
-    if (!project) return;
+  // Click seeks; dragging across the ruler draws a new loop region
+  const handleMouseDown = useCallback((e: React.MouseEvent<HTMLDivElement>) => {
+    if (!project || e.button !== 0) return;
+    e.preventDefault();
     const rect = e.currentTarget.getBoundingClientRect();
-    const x = e.clientX - rect.left;
-    const time = Math.max(0, Math.min(x / pixelsPerSecond, project.totalDuration));
-    seek(time);
-  }, [project, pixelsPerSecond, seek]);
+    const toTime = (clientX: number) =>
+      Math.max(0, Math.min((clientX - rect.left) / pixelsPerSecond, project.totalDuration));
+    const tempo = getTempoMap(project);
+    const startX = e.clientX;
+    const anchor = snapToGrid(toTime(startX), tempo, 1);
+    let dragging = false;
+
+    const handleMove = (ev: MouseEvent) => {
+      if (!dragging && Math.abs(ev.clientX - startX) < 3) return;
+      dragging = true;
+      const t = snapToGrid(toTime(ev.clientX), tempo, 1);
+      if (t !== anchor) setLoopRegion(Math.min(anchor, t), Math.max(anchor, t));
+    };
+
+    const handleUp = (ev: MouseEvent) => {
+      window.removeEventListener('mousemove', handleMove);
+      window.removeEventListener('mouseup', handleUp);
+      if (!dragging) {
+        seek(toTime(ev.clientX));
+        return;
+      }
+      const { loopStart: start, loopEnd: end, loopEnabled: enabled } = useTransportStore.getState();
+      if (end > start && !enabled) useTransportStore.setState({ loopEnabled: true });
+    };
+
+    window.addEventListener('mousemove', handleMove);
+    window.addEventListener('mouseup', handleUp);
+  }, [project, pixelsPerSecond, seek, setLoopRegion]);
+
+  // Move the whole region or resize it from either edge
+  const handleLoopMouseDown = useCallback((e: React.MouseEvent, mode: LoopDragMode) => {
+    if (!project || e.button !== 0) return;
+    e.preventDefault();
+    e.stopPropagation();
+    const tempo = getTempoMap(project);
+    const startX = e.clientX;
+    const origStart = loopStart;
+    const origEnd = loopEnd;
+    const length = origEnd - origStart;
+
+    const handleMove = (ev: MouseEvent) => {
+      const delta = (ev.clientX - startX) / pixelsPerSecond;
+      if (mode === 'move') {
+        const start = Math.max(0, Math.min(snapToGrid(origStart + delta, tempo, 1), project.totalDuration - length));
+        setLoopRegion(start, start + length);
+      } else if (mode === 'start') {
+        const start = Math.max(0, snapToGrid(origStart + delta, tempo, 1));
+        if (start < origEnd) setLoopRegion(start, origEnd);
+      } else {
+        const end = Math.min(project.totalDuration, snapToGrid(origEnd + delta, tempo, 1));
+        if (end > origStart) setLoopRegion(origStart, end);
+      }
+    };
+
+    const handleUp = () => {
+      window.removeEventListener('mousemove', handleMove);
+      window.removeEventListener('mouseup', handleUp);
+    };
+
+    window.addEventListener('mousemove', handleMove);
+    window.addEventListener('mouseup', handleUp);
+  }, [project, pixelsPerSecond, loopStart, loopEnd, setLoopRegion]);
+
+  // Right-click drops a tempo change on the nearest bar line, starting from the tempo there
+  const handleContextMenu = useCallback((e: React.MouseEvent<HTMLDivElement>) => {
+    if (!project) return;
+    e.preventDefault();
+    const tempo = getTempoMap(project);
+    const time = (e.clientX - e.currentTarget.getBoundingClientRect().left) / pixelsPerSecond;
+    const { bars, beats, ticks } = beatsToBarsBeats(tempo, timeToBeats(tempo, time));
+    const intoBar = beats - 1 + ticks / 100;
+    const bar = Math.max(2, intoBar * 2 >= getTempoAt(tempo, time).timeSignature ? bars + 1 : bars);
+    const existing = project.tempoChanges?.find((c) => c.bar === bar);
+    const change = existing ?? addTempoChange({ bar, ...getTempoAt(tempo, barToTime(tempo, bar)) });
+    if (change) setEditing({ changeId: change.id, x: e.clientX, y: e.clientY });
+  }, [project, pixelsPerSecond, addTempoChange]);
 
   if (!project) return <div className="h-6 bg-daw-surface border-b border-daw-border" />;
 
-  const barDuration = getBarDuration(project.bpm, project.timeSignature);
-  const totalBars = Math.ceil(project.totalDuration / barDuration);
+  const tempo = getTempoMap(project);
   const totalWidth = project.totalDuration * pixelsPerSecond;
 
   const markers: { bar: number; x: number }[] = [];
-  for (let bar = 1; bar <= totalBars; bar++) {
-    const x = (bar - 1) * barDuration * pixelsPerSecond;
-    markers.push({ bar, x });
+  for (let bar = 1; ; bar++) {
+    const time = barToTime(tempo, bar);
+    if (time >= project.totalDuration) break;
+    markers.push({ bar, x: time * pixelsPerSecond });
   }
 
+  const tempoMarkers = (project.tempoChanges ?? [])
+    .map((change) => ({ change, time: barToTime(tempo, change.bar) }))
+    .filter(({ time }) => time < project.totalDuration);
+  const editingChange = editing && project.tempoChanges?.find((c) => c.id === editing.changeId);
+
+  const hasLoop = loopEnd > loopStart;
+
   return (
     <div
       className="relative h-6 bg-daw-surface border-b border-daw-border overflow-hidden select-none cursor-pointer"
       style={{ width: totalWidth }}
-      onClick={handleClick}
+      onMouseDown={handleMouseDown}
+      onContextMenu={handleContextMenu}
     >
+      {hasLoop && (
+        <div
+          className={`absolute top-0 h-full border-x cursor-grab ${
+            loopEnabled ? 'bg-daw-accent/25 border-daw-accent' : 'bg-zinc-500/15 border-zinc-500'
+          }`}
+          style={{ left: loopStart * pixelsPerSecond, width: (loopEnd - loopStart) * pixelsPerSecond }}
+          onMouseDown={(e) => handleLoopMouseDown(e, 'move')}
+          title={loopEnabled ? 'Loop region' : 'Loop region (looping off)'}
+        >
+          <div
+            className="absolute left-0 top-0 w-1.5 h-full cursor-ew-resize"
+            onMouseDown={(e) => handleLoopMouseDown(e, 'start')}
+          />
+          <div
+            className="absolute right-0 top-0 w-1.5 h-full cursor-ew-resize"
+            onMouseDown={(e) => handleLoopMouseDown(e, 'end')}
+          />
+        </div>
+      )}
       {markers.map(({ bar, x }) => (
         <div
           key={bar}
@@ -45,6 +159,101 @@ export function TimeRuler() {
           <span>{bar}</span>
         </div>
       ))}
+      {tempoMarkers.map(({ change, time }) => (
+        <button
+          key={change.id}
+          className="absolute top-0 z-10 px-0.5 text-[9px] leading-[11px] font-mono text-amber-300 bg-daw-surface-2 border-l border-amber-400 rounded-r-sm hover:bg-amber-400/20"
+          style={{ left: time * pixelsPerSecond }}
+          onMouseDown={(e) => e.stopPropagation()}
+          onClick={(e) => setEditing({ changeId: change.id, x: e.clientX, y: e.clientY })}
+          title={`Bar ${change.bar}: ${change.bpm} BPM, ${change.timeSignature}/4${change.ramp ? ' (ramp)' : ''}`}
+        >
+          {change.ramp ? '↗' : '♩'}{change.bpm} {change.timeSignature}/4
+        </button>
+      ))}
+      {editing && editingChange && (
+        <TempoChangePopover change={editingChange} x={editing.x} y={editing.y} onClose={() => setEditing(null)} />
+      )}
     </div>
   );
 }
+
+function TempoChangePopover({ change, x, y, onClose }: {
+  change: TempoChange;
+  x: number;
+  y: number;
+  onClose: () => void;
+}) {
+  const updateTempoChange = useProjectStore((s) => s.updateTempoChange);
+  const removeTempoChange = useProjectStore((s) => s.removeTempoChange);
+  const inputClass = 'w-full px-2 py-1 text-xs bg-daw-bg border border-daw-border rounded focus:outline-none focus:border-daw-accent';
+
+  return (
+    <>
+      <div
+        className="fixed inset-0 z-40 cursor-default"
+        onMouseDown={(e) => e.stopPropagation()}
+        onClick={onClose}
+        onContextMenu={(e) => { e.preventDefault(); e.stopPropagation(); onClose(); }}
+      />
+      <div
+        className="fixed z-50 w-48 p-3 space-y-2 bg-daw-surface border border-daw-border rounded shadow-xl cursor-default"
+        style={{ left: x, top: y + 8 }}
+        onMouseDown={(e) => e.stopPropagation()}
+        onContextMenu={(e) => e.stopPropagation()}
+      >
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <label className="block text-[10px] text-zinc-400 mb-0.5">Bar</label>
+            <input
+              type="number"
+              min={2}
+              value={change.bar}
+              onChange={(e) => updateTempoChange(change.id, { bar: Math.max(2, parseInt(e.target.value) || 2) })}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-[10px] text-zinc-400 mb-0.5">BPM</label>
+            <input
+              type="number"
+              min={MIN_BPM}
+              max={MAX_BPM}
+              value={change.bpm}
+              onChange={(e) => updateTempoChange(change.id, {
+                bpm: Math.min(MAX_BPM, Math.max(MIN_BPM, parseInt(e.target.value) || MIN_BPM)),
+              })}
+              className={inputClass}
+            />
+          </div>
+        </div>
+        <div>
+          <label className="block text-[10px] text-zinc-400 mb-0.5">Time Signature</label>
+          <select
+            value={change.timeSignature}
+            onChange={(e) => updateTempoChange(change.id, { timeSignature: parseInt(e.target.value) })}
+            className={inputClass}
+          >
+            {TIME_SIGNATURES.map((ts) => (
+              <option key={ts} value={ts}>{ts}/4</option>
+            ))}
+          </select>
+        </div>
+        <label className="flex items-center gap-1.5 text-xs text-zinc-300">
+          <input
+            type="checkbox"
+            checked={!!change.ramp}
+            onChange={(e) => updateTempoChange(change.id, { ramp: e.target.checked })}
+          />
+          Ramp from previous tempo
+        </label>
+        <button
+          onClick={() => { removeTempoChange(change.id); onClose(); }}
+          className="w-full px-2 py-1 text-xs text-red-300 bg-daw-surface-2 rounded hover:bg-red-500/20 transition-colors"
+        >
+          Remove Tempo Change
+        </button>
+      </div>
+    </>
+  );
+}
@@ -1,20 +1,23 @@
-import { useRef, useCallback } from 'react';
+import { useRef, useCallback, Fragment } from 'react';
 import { useProjectStore } from '../../store/projectStore';
 import { useUIStore } from '../../store/uiStore';
 import { TimeRuler } from './TimeRuler';
 import { TrackLane } from './TrackLane';
+import { AutomationLanes } from './AutomationLanes';
 import { Playhead } from './Playhead';
 import { GridOverlay } from './GridOverlay';
+import { getTrackRows } from '../../utils/trackTree';
 
 export function Timeline() {
   const project = useProjectStore((s) => s.project);
   const pixelsPerSecond = useUIStore((s) => s.pixelsPerSecond);
   const setPixelsPerSecond = useUIStore((s) => s.setPixelsPerSecond);
+  const automationTrackIds = useUIStore((s) => s.automationTrackIds);
+  const collapsedGroupIds = useUIStore((s) => s.collapsedGroupIds);
   const scrollRef = useRef<HTMLDivElement>(null);
 
-  const sortedTracks = project
-    ? [...project.tracks].sort((a, b) => a.order - b.order)
-    : [];
+  // Same rows as the TrackList, so lanes line up with their headers
+  const rows = project ? getTrackRows(project.tracks, collapsedGroupIds) : [];
 
   const totalWidth = project ? project.totalDuration * pixelsPerSecond : 0;
 
@@ -55,11 +58,14 @@ export function Timeline() {
           <GridOverlay />
           <Playhead />
 
-          {sortedTracks.map((track) => (
-            <TrackLane key={track.id} track={track} />
+          {rows.map(({ track }) => (
+            <Fragment key={track.id}>
+              <TrackLane track={track} />
+              {automationTrackIds.has(track.id) && <AutomationLanes track={track} />}
+            </Fragment>
           ))}
 
-          {sortedTracks.length === 0 && (
+          {rows.length === 0 && (
             <div className="flex items-center justify-center h-32 text-zinc-600 text-xs">
               Add a track to begin
             </div>
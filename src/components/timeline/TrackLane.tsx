@@ -4,6 +4,8 @@ import { useUIStore } from '../../store/uiStore';
 import { useProjectStore } from '../../store/projectStore';
 import { useTimelineInteraction } from '../../hooks/useTimelineInteraction';
 import { ClipBlock } from './ClipBlock';
+import { isGroupTrack, getTrackDescendants } from '../../utils/trackTree';
+import { hexToRgba } from '../../utils/color';
 
 interface TrackLaneProps {
   track: Track;
@@ -26,6 +28,28 @@ export function TrackLane({ track }: TrackLaneProps) {
 
   const totalWidth = project.totalDuration * pixelsPerSecond;
 
+  // Group lanes hold no clips; they show an outline of their members' clips
+  if (isGroupTrack(track)) {
+    const members = getTrackDescendants(project.tracks, track.id);
+    return (
+      <div className="relative h-16 border-b border-daw-border bg-daw-surface/40" style={{ width: totalWidth }}>
+        {members.flatMap((member) =>
+          member.clips.map((clip) => (
+            <div
+              key={clip.id}
+              className="absolute top-3 bottom-3 rounded-sm"
+              style={{
+                left: clip.startTime * pixelsPerSecond,
+                width: clip.duration * pixelsPerSecond,
+                backgroundColor: hexToRgba(member.color, 0.25),
+              }}
+            />
+          )),
+        )}
+      </div>
+    );
+  }
+
   return (
     <div
       className="relative h-16 border-b border-daw-border"
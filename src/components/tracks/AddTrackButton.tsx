@@ -1,8 +1,10 @@
 import { useUIStore } from '../../store/uiStore';
+import { useProjectStore } from '../../store/projectStore';
 import { useAudioImport } from '../../hooks/useAudioImport';
 
 export function AddTrackButton() {
   const setShowInstrumentPicker = useUIStore((s) => s.setShowInstrumentPicker);
+  const addGroupTrack = useProjectStore((s) => s.addGroupTrack);
   const { openFilePicker } = useAudioImport();
 
   return (
@@ -13,6 +15,13 @@ export function AddTrackButton() {
       >
         <span className="text-sm">+</span> Track
       </button>
+      <button
+        onClick={() => addGroupTrack()}
+        className="flex items-center justify-center gap-1 h-8 px-2 text-xs font-medium text-zinc-400 hover:text-zinc-200 bg-daw-surface-2 hover:bg-zinc-600 rounded transition-colors"
+        title="Add group track (right-click a track to move it into a group)"
+      >
+        <span className="text-sm">🗂️</span>
+      </button>
       <button
         onClick={openFilePicker}
         className="flex items-center justify-center gap-1 h-8 px-2 text-xs font-medium text-zinc-400 hover:text-zinc-200 bg-daw-surface-2 hover:bg-zinc-600 rounded transition-colors"
@@ -0,0 +1,97 @@
+import type { Track, AutomationLane } from '../../types/project';
+import { useProjectStore } from '../../store/projectStore';
+import {
+  getAutomationParams,
+  getAutomationTargetKey,
+  type AutomationParamInfo,
+} from '../../constants/automation';
+
+interface AutomationLaneHeadersProps {
+  track: Track;
+}
+
+/** Header rows for a track's automation lanes, aligned with the lanes in the Timeline. */
+export function AutomationLaneHeaders({ track }: AutomationLaneHeadersProps) {
+  const addAutomationLane = useProjectStore((s) => s.addAutomationLane);
+  const params = getAutomationParams(track);
+  const lanes = track.automation ?? [];
+  const usedKeys = new Set(lanes.map((l) => getAutomationTargetKey(l.target)));
+  const available = params.filter((p) => !usedKeys.has(getAutomationTargetKey(p.target)));
+
+  return (
+    <>
+      {lanes.map((lane) => (
+        <LaneHeader key={lane.id} track={track} lane={lane} params={params} usedKeys={usedKeys} />
+      ))}
+      <div
+        className="flex items-center h-6 pl-6 pr-2 border-b border-daw-border bg-daw-bg"
+        style={{ borderLeft: `3px solid ${track.color}` }}
+      >
+        <select
+          value=""
+          onChange={(e) => {
+            const param = available.find((p) => getAutomationTargetKey(p.target) === e.target.value);
+            if (param) addAutomationLane(track.id, param.target);
+          }}
+          disabled={available.length === 0}
+          className="w-full bg-transparent text-[10px] text-zinc-500 hover:text-zinc-300 focus:outline-none disabled:opacity-50"
+        >
+          <option value="">+ Automation lane</option>
+          {available.map((p) => {
+            const key = getAutomationTargetKey(p.target);
+            return <option key={key} value={key}>{p.label}</option>;
+          })}
+        </select>
+      </div>
+    </>
+  );
+}
+
+function LaneHeader({ track, lane, params, usedKeys }: {
+  track: Track;
+  lane: AutomationLane;
+  params: AutomationParamInfo[];
+  usedKeys: Set<string>;
+}) {
+  const updateAutomationLane = useProjectStore((s) => s.updateAutomationLane);
+  const removeAutomationLane = useProjectStore((s) => s.removeAutomationLane);
+  const laneKey = getAutomationTargetKey(lane.target);
+
+  return (
+    <div
+      className="flex items-center gap-1 h-12 pl-6 pr-2 border-b border-daw-border bg-daw-bg group"
+      style={{ borderLeft: `3px solid ${track.color}` }}
+    >
+      <div className="flex-1 min-w-0">
+        <select
+          value={laneKey}
+          onChange={(e) => {
+            const param = params.find((p) => getAutomationTargetKey(p.target) === e.target.value);
+            // Points are in the old target's units, so a retargeted lane starts empty
+            if (param) updateAutomationLane(track.id, lane.id, { target: param.target, points: [] });
+          }}
+          className="w-full px-1 py-0.5 text-[10px] bg-daw-surface border border-daw-border rounded text-zinc-300 focus:outline-none focus:border-daw-accent"
+        >
+          {params.map((p) => {
+            const key = getAutomationTargetKey(p.target);
+            return (
+              <option key={key} value={key} disabled={key !== laneKey && usedKeys.has(key)}>
+                {p.label}
+              </option>
+            );
+          })}
+        </select>
+        <div className="mt-0.5 text-[9px] text-zinc-600 truncate">
+          {lane.points.length === 0 ? 'Click the lane to add points' : `${lane.points.length} points`}
+        </div>
+      </div>
+      <button
+        onClick={() => removeAutomationLane(track.id, lane.id)}
+        className="w-5 h-5 text-[10px] font-bold rounded bg-daw-surface-2 text-zinc-600 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-all"
+        title="Remove lane"
+      >
+        ×
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,103 @@
+import { useEffect, useRef, useState } from 'react';
+import type { MeterLevels } from '../../engine/AudioEngine';
+import { gainToDb } from '../../utils/db';
+
+interface LevelMeterProps {
+  /** Polled every animation frame; null while there is nothing to meter. */
+  getLevels: () => MeterLevels | null;
+  height: number;
+}
+
+const MIN_DB = -60;
+const MAX_DB = 6;
+const FALL_DB_PER_SECOND = 24;
+const PEAK_HOLD_MS = 1500;
+const BAR_WIDTH = 4;
+const BAR_GAP = 1;
+
+const dbToFraction = (db: number) => Math.max(0, Math.min(1, (db - MIN_DB) / (MAX_DB - MIN_DB)));
+
+/**
+ * Vertical stereo meter: RMS body, peak bar, peak-hold tick and a latching
+ * clip indicator (click to reset). Drawn on a canvas from a rAF loop so
+ * meters don't re-render React every frame.
+ */
+export function LevelMeter({ getLevels, height }: LevelMeterProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const getLevelsRef = useRef(getLevels);
+  getLevelsRef.current = getLevels;
+  const clippedRef = useRef(false);
+  const [clipped, setClipped] = useState(false);
+
+  const width = BAR_WIDTH * 2 + BAR_GAP;
+  const barHeight = height - 4; // room for the clip indicator
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const g = canvas?.getContext('2d');
+    if (!canvas || !g) return;
+
+    const peak = [MIN_DB, MIN_DB];
+    const rms = [MIN_DB, MIN_DB];
+    const hold = [MIN_DB, MIN_DB];
+    const holdUntil = [0, 0];
+    let last = performance.now();
+    let rafId = 0;
+
+    const draw = (now: number) => {
+      const dt = (now - last) / 1000;
+      last = now;
+      const levels = getLevelsRef.current();
+
+      g.clearRect(0, 0, width, barHeight);
+      for (let ch = 0; ch < 2; ch++) {
+        const peakDb = levels ? gainToDb(levels.peak[ch]) : -Infinity;
+        const rmsDb = levels ? gainToDb(levels.rms[ch]) : -Infinity;
+        // Instant attack, linear fall in dB
+        peak[ch] = Math.max(peakDb, peak[ch] - FALL_DB_PER_SECOND * dt, MIN_DB);
+        rms[ch] = Math.max(rmsDb, rms[ch] - FALL_DB_PER_SECOND * dt, MIN_DB);
+        if (peakDb >= hold[ch] || now > holdUntil[ch]) {
+          hold[ch] = Math.max(peakDb, MIN_DB);
+          holdUntil[ch] = now + PEAK_HOLD_MS;
+        }
+        if (levels && levels.peak[ch] >= 1 && !clippedRef.current) {
+          clippedRef.current = true;
+          setClipped(true);
+        }
+
+        const x = ch * (BAR_WIDTH + BAR_GAP);
+        const peakH = dbToFraction(peak[ch]) * barHeight;
+        const rmsH = dbToFraction(rms[ch]) * barHeight;
+        g.fillStyle = peak[ch] > -6 ? (peak[ch] > 0 ? '#ef4444' : '#eab308') : '#22c55e';
+        g.globalAlpha = 0.45;
+        g.fillRect(x, barHeight - peakH, BAR_WIDTH, peakH);
+        g.globalAlpha = 1;
+        g.fillRect(x, barHeight - rmsH, BAR_WIDTH, rmsH);
+
+        if (hold[ch] > MIN_DB) {
+          const holdY = barHeight - dbToFraction(hold[ch]) * barHeight;
+          g.fillStyle = hold[ch] > 0 ? '#ef4444' : '#e4e4e7';
+          g.fillRect(x, Math.max(0, holdY - 1), BAR_WIDTH, 1);
+        }
+      }
+      // 0 dBFS reference
+      g.fillStyle = 'rgba(255,255,255,0.25)';
+      g.fillRect(0, barHeight - dbToFraction(0) * barHeight, width, 1);
+
+      rafId = requestAnimationFrame(draw);
+    };
+    rafId = requestAnimationFrame(draw);
+    return () => cancelAnimationFrame(rafId);
+  }, [width, barHeight]);
+
+  return (
+    <div
+      className="flex flex-col items-center gap-px cursor-pointer"
+      onClick={() => { clippedRef.current = false; setClipped(false); }}
+      title={clipped ? 'Clipped — click to reset' : 'Peak / RMS'}
+    >
+      <div className={`w-full h-[3px] rounded-sm ${clipped ? 'bg-red-500' : 'bg-daw-surface-2'}`} />
+      <canvas ref={canvasRef} width={width} height={barHeight} className="bg-daw-bg rounded-sm" />
+    </div>
+  );
+}
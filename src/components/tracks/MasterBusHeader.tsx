@@ -0,0 +1,98 @@
+import { useState } from 'react';
+import type { MasterSettings } from '../../types/project';
+import { useProjectStore } from '../../store/projectStore';
+import { DEFAULT_MASTER } from '../../constants/effects';
+import { ParamSlider, formatDb, formatMs } from './ParamSlider';
+import { LevelMeter } from './LevelMeter';
+import { getAudioEngine } from '../../hooks/useAudioEngine';
+
+export function MasterBusHeader() {
+  const master = useProjectStore((s) => s.project?.master ?? DEFAULT_MASTER);
+  const updateMaster = useProjectStore((s) => s.updateMaster);
+  const [panel, setPanel] = useState<{ x: number; y: number } | null>(null);
+
+  const setGlue = (updates: Partial<MasterSettings['glue']>) =>
+    updateMaster({ glue: { ...master.glue, ...updates } });
+  const setLimiter = (updates: Partial<MasterSettings['limiter']>) =>
+    updateMaster({ limiter: { ...master.limiter, ...updates } });
+
+  return (
+    <div className="flex items-center gap-2 h-9 px-2 border-t border-daw-border" style={{ borderLeft: '3px solid #a1a1aa' }}>
+      <span className="text-[10px] font-bold text-zinc-400 w-6">MST</span>
+
+      <div className="flex-1 min-w-0">
+        <div className="text-[11px] text-zinc-300 truncate">Master</div>
+        <input
+          type="range"
+          min="0"
+          max="100"
+          value={Math.round(master.volume * 100)}
+          onChange={(e) => updateMaster({ volume: parseInt(e.target.value) / 100 })}
+          className="w-full h-1"
+          title={`Master: ${Math.round(master.volume * 100)}%`}
+        />
+      </div>
+
+      <LevelMeter getLevels={() => getAudioEngine().getMasterLevels()} height={30} />
+
+      <div className="flex items-center gap-0.5">
+        <button
+          onClick={(e) => {
+            const rect = e.currentTarget.getBoundingClientRect();
+            setPanel({ x: rect.right + 4, y: rect.top - 200 });
+          }}
+          className="w-6 h-5 text-[9px] font-bold rounded bg-daw-surface-2 text-zinc-500 hover:text-zinc-300 transition-colors"
+          title="Master settings"
+        >
+          ⚙
+        </button>
+        <button
+          onClick={() => setLimiter({ enabled: !master.limiter.enabled })}
+          className={`w-6 h-5 text-[8px] font-bold rounded transition-colors ${
+            master.limiter.enabled
+              ? 'bg-daw-accent text-white'
+              : 'bg-daw-surface-2 text-zinc-500 hover:text-zinc-300'
+          }`}
+          title="True-peak limiter"
+        >
+          LIM
+        </button>
+      </div>
+
+      {panel && (
+        <>
+          <div className="fixed inset-0 z-40" onClick={() => setPanel(null)} />
+          <div
+            className="fixed z-50 w-[240px] bg-daw-surface border border-daw-border rounded shadow-xl p-3 space-y-1.5"
+            style={{ left: panel.x, top: Math.max(8, panel.y) }}
+          >
+            <label className="flex items-center gap-2 text-xs font-medium text-zinc-300">
+              <input
+                type="checkbox"
+                checked={master.glue.enabled}
+                onChange={(e) => setGlue({ enabled: e.target.checked })}
+              />
+              Glue compressor
+            </label>
+            <ParamSlider label="Threshold" value={master.glue.threshold} min={-40} max={0} step={0.5} format={formatDb} onChange={(v) => setGlue({ threshold: v })} />
+            <ParamSlider label="Ratio" value={master.glue.ratio} min={1} max={10} step={0.5} format={(v) => `${v.toFixed(1)}:1`} onChange={(v) => setGlue({ ratio: v })} />
+            <ParamSlider label="Attack" value={master.glue.attack} min={0.001} max={0.1} step={0.001} format={formatMs} onChange={(v) => setGlue({ attack: v })} />
+            <ParamSlider label="Release" value={master.glue.release} min={0.05} max={1.2} step={0.01} format={formatMs} onChange={(v) => setGlue({ release: v })} />
+            <ParamSlider label="Makeup" value={master.glue.makeupGain} min={0} max={12} step={0.5} format={formatDb} onChange={(v) => setGlue({ makeupGain: v })} />
+
+            <label className="flex items-center gap-2 pt-1.5 border-t border-daw-border text-xs font-medium text-zinc-300">
+              <input
+                type="checkbox"
+                checked={master.limiter.enabled}
+                onChange={(e) => setLimiter({ enabled: e.target.checked })}
+              />
+              True-peak limiter
+            </label>
+            <ParamSlider label="Ceiling" value={master.limiter.ceiling} min={-6} max={0} step={0.1} format={(v) => `${v.toFixed(1)} dBTP`} onChange={(v) => setLimiter({ ceiling: v })} />
+            <ParamSlider label="Release" value={master.limiter.release} min={0.01} max={1} step={0.01} format={formatMs} onChange={(v) => setLimiter({ release: v })} />
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,31 @@
+export function ParamSlider({
+  label, value, min, max, step, format, onChange,
+}: {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  format: (v: number) => string;
+  onChange: (v: number) => void;
+}) {
+  return (
+    <div className="flex items-center gap-2">
+      <span className="w-14 text-[10px] text-zinc-500 truncate">{label}</span>
+      <input
+        type="range"
+        min={min}
+        max={max}
+        step={step}
+        value={value}
+        onChange={(e) => onChange(parseFloat(e.target.value))}
+        className="flex-1 h-1"
+      />
+      <span className="w-12 text-right text-[10px] text-zinc-400 tabular-nums">{format(value)}</span>
+    </div>
+  );
+}
+
+export const formatDb = (v: number) => `${v.toFixed(1)}dB`;
+export const formatMs = (v: number) => `${Math.round(v * 1000)}ms`;
+export const formatHz = (v: number) => (v >= 1000 ? `${(v / 1000).toFixed(1)}k` : `${Math.round(v)}`);
@@ -0,0 +1,95 @@
+import { useState } from 'react';
+import type { ReturnBus } from '../../types/project';
+import { useProjectStore } from '../../store/projectStore';
+import { DELAY_DIVISIONS } from '../../constants/effects';
+import { ParamSlider, formatHz, formatMs } from './ParamSlider';
+
+interface ReturnBusHeaderProps {
+  bus: ReturnBus;
+}
+
+export function ReturnBusHeader({ bus }: ReturnBusHeaderProps) {
+  const updateReturnBus = useProjectStore((s) => s.updateReturnBus);
+  const [panel, setPanel] = useState<{ x: number; y: number } | null>(null);
+
+  const update = (updates: Partial<ReturnBus>) => updateReturnBus(bus.id, updates);
+
+  return (
+    <div className="flex items-center gap-2 h-9 px-2 border-t border-daw-border" style={{ borderLeft: '3px solid #52525b' }}>
+      <span className="text-[10px] font-bold text-zinc-500 w-6">{bus.type === 'reverb' ? 'REV' : 'DLY'}</span>
+
+      <div className="flex-1 min-w-0">
+        <div className="text-[11px] text-zinc-300 truncate">{bus.name}</div>
+        <input
+          type="range"
+          min="0"
+          max="100"
+          value={Math.round(bus.volume * 100)}
+          onChange={(e) => update({ volume: parseInt(e.target.value) / 100 })}
+          className="w-full h-1"
+          title={`Return level: ${Math.round(bus.volume * 100)}%`}
+        />
+      </div>
+
+      <div className="flex items-center gap-0.5">
+        <button
+          onClick={(e) => {
+            const rect = e.currentTarget.getBoundingClientRect();
+            setPanel({ x: rect.right + 4, y: rect.top - 120 });
+          }}
+          className="w-6 h-5 text-[9px] font-bold rounded bg-daw-surface-2 text-zinc-500 hover:text-zinc-300 transition-colors"
+          title="Return settings"
+        >
+          ⚙
+        </button>
+        <button
+          onClick={() => update({ muted: !bus.muted })}
+          className={`w-6 h-5 text-[10px] font-bold rounded transition-colors ${
+            bus.muted
+              ? 'bg-amber-600 text-white'
+              : 'bg-daw-surface-2 text-zinc-500 hover:text-zinc-300'
+          }`}
+          title="Mute return"
+        >
+          M
+        </button>
+      </div>
+
+      {panel && (
+        <>
+          <div className="fixed inset-0 z-40" onClick={() => setPanel(null)} />
+          <div
+            className="fixed z-50 w-[240px] bg-daw-surface border border-daw-border rounded shadow-xl p-3 space-y-1.5"
+            style={{ left: panel.x, top: Math.max(8, panel.y) }}
+          >
+            <span className="block text-xs font-medium text-zinc-300 mb-1">{bus.name}</span>
+            {bus.type === 'reverb' ? (
+              <>
+                <ParamSlider label="Decay" value={bus.decay} min={0.2} max={8} step={0.1} format={(v) => `${v.toFixed(1)}s`} onChange={(v) => update({ decay: v })} />
+                <ParamSlider label="Pre-delay" value={bus.preDelay} min={0} max={0.2} step={0.001} format={formatMs} onChange={(v) => update({ preDelay: v })} />
+                <ParamSlider label="Damping" value={bus.damping} min={1000} max={20000} step={100} format={formatHz} onChange={(v) => update({ damping: v })} />
+              </>
+            ) : (
+              <>
+                <div className="flex items-center gap-2">
+                  <span className="w-14 text-[10px] text-zinc-500">Time</span>
+                  <select
+                    value={bus.division}
+                    onChange={(e) => update({ division: parseFloat(e.target.value) })}
+                    className="flex-1 px-1 py-0.5 text-[10px] bg-daw-bg border border-daw-border rounded text-zinc-300"
+                  >
+                    {DELAY_DIVISIONS.map((d) => (
+                      <option key={d.label} value={d.beats}>{d.label}</option>
+                    ))}
+                  </select>
+                </div>
+                <ParamSlider label="Feedback" value={bus.feedback} min={0} max={0.95} step={0.01} format={(v) => `${Math.round(v * 100)}%`} onChange={(v) => update({ feedback: v })} />
+                <ParamSlider label="Damping" value={bus.damping} min={500} max={20000} step={100} format={formatHz} onChange={(v) => update({ damping: v })} />
+              </>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,255 @@
+import { useState } from 'react';
+import type {
+  Track,
+  TrackEffect,
+  EqBand,
+  EqBandType,
+  EqEffect,
+  CompressorEffect,
+  SidechainCompressorEffect,
+  SaturationEffect,
+} from '../../types/project';
+import { useProjectStore } from '../../store/projectStore';
+import { EFFECT_CATALOG, EFFECT_TYPES, DEFAULT_RETURN_BUSES } from '../../constants/effects';
+import { ParamSlider, formatDb, formatMs, formatHz } from './ParamSlider';
+import { canKeySidechain } from '../../utils/trackTree';
+
+interface TrackEffectsPanelProps {
+  track: Track;
+  x: number;
+  y: number;
+  onClose: () => void;
+}
+
+const EQ_BAND_TYPES: EqBandType[] = ['highpass', 'lowshelf', 'peaking', 'highshelf', 'lowpass'];
+
+export function TrackEffectsPanel({ track, x, y, onClose }: TrackEffectsPanelProps) {
+  const addTrackEffect = useProjectStore((s) => s.addTrackEffect);
+  const updateTrackEffect = useProjectStore((s) => s.updateTrackEffect);
+  const removeTrackEffect = useProjectStore((s) => s.removeTrackEffect);
+  const moveTrackEffect = useProjectStore((s) => s.moveTrackEffect);
+  const setTrackSend = useProjectStore((s) => s.setTrackSend);
+  const returns = useProjectStore((s) => s.project?.returns ?? DEFAULT_RETURN_BUSES);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const effects = track.effects ?? [];
+
+  const update = (effectId: string, updates: Partial<TrackEffect>) =>
+    updateTrackEffect(track.id, effectId, updates);
+
+  return (
+    <>
+      <div className="fixed inset-0 z-40" onClick={onClose} />
+      <div
+        className="fixed z-50 w-[280px] max-h-[70vh] overflow-y-auto bg-daw-surface border border-daw-border rounded shadow-xl"
+        style={{ left: x, top: y }}
+      >
+        <div className="flex items-center justify-between px-3 py-2 border-b border-daw-border">
+          <span className="text-xs font-medium text-zinc-300 truncate">Inserts — {track.displayName}</span>
+          <button onClick={onClose} className="text-zinc-500 hover:text-zinc-300 text-sm leading-none">×</button>
+        </div>
+
+        <div className="p-2 space-y-1">
+          {effects.length === 0 && (
+            <p className="px-1 py-2 text-[10px] text-zinc-500">No effects. Signal passes straight to the fader.</p>
+          )}
+
+          {effects.map((effect, i) => {
+            const expanded = expandedId === effect.id;
+            return (
+              <div key={effect.id} className="rounded bg-daw-bg border border-daw-border">
+                <div className="flex items-center gap-1 px-1.5 h-7">
+                  <button
+                    onClick={() => update(effect.id, { bypassed: !effect.bypassed })}
+                    className={`w-5 h-4 text-[9px] font-bold rounded transition-colors ${
+                      effect.bypassed
+                        ? 'bg-daw-surface-2 text-zinc-600'
+                        : 'bg-daw-accent text-white'
+                    }`}
+                    title={effect.bypassed ? 'Enable' : 'Bypass'}
+                  >
+                    ⏻
+                  </button>
+                  <button
+                    onClick={() => setExpandedId(expanded ? null : effect.id)}
+                    className={`flex-1 text-left text-[11px] truncate ${effect.bypassed ? 'text-zinc-500' : 'text-zinc-200'}`}
+                  >
+                    {EFFECT_CATALOG[effect.type].displayName}
+                  </button>
+                  <button
+                    onClick={() => moveTrackEffect(track.id, effect.id, i - 1)}
+                    disabled={i === 0}
+                    className="w-4 text-[10px] text-zinc-500 hover:text-zinc-200 disabled:text-zinc-700"
+                    title="Move up"
+                  >
+                    ▲
+                  </button>
+                  <button
+                    onClick={() => moveTrackEffect(track.id, effect.id, i + 1)}
+                    disabled={i === effects.length - 1}
+                    className="w-4 text-[10px] text-zinc-500 hover:text-zinc-200 disabled:text-zinc-700"
+                    title="Move down"
+                  >
+                    ▼
+                  </button>
+                  <button
+                    onClick={() => removeTrackEffect(track.id, effect.id)}
+                    className="w-4 text-[11px] text-zinc-500 hover:text-red-400"
+                    title="Remove"
+                  >
+                    ×
+                  </button>
+                </div>
+
+                {expanded && (
+                  <div className="px-2 pb-2 pt-1 space-y-1.5 border-t border-daw-border">
+                    {effect.type === 'eq' && (
+                      <EqControls effect={effect} onChange={(u) => update(effect.id, u)} />
+                    )}
+                    {effect.type === 'compressor' && (
+                      <CompressorControls effect={effect} onChange={(u) => update(effect.id, u)} />
+                    )}
+                    {effect.type === 'sidechain' && (
+                      <SidechainControls track={track} effect={effect} onChange={(u) => update(effect.id, u)} />
+                    )}
+                    {effect.type === 'saturation' && (
+                      <SaturationControls effect={effect} onChange={(u) => update(effect.id, u)} />
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="flex gap-1 px-2 pb-2">
+          {EFFECT_TYPES.map((type) => (
+            <button
+              key={type}
+              onClick={() => {
+                const effect = addTrackEffect(track.id, type);
+                if (effect) setExpandedId(effect.id);
+              }}
+              className="flex-1 h-6 text-[10px] font-medium text-zinc-400 hover:text-zinc-200 bg-daw-surface-2 hover:bg-zinc-600 rounded transition-colors"
+            >
+              + {EFFECT_CATALOG[type].shortName}
+            </button>
+          ))}
+        </div>
+
+        <div className="px-3 py-2 space-y-1.5 border-t border-daw-border">
+          <span className="block text-[10px] font-medium text-zinc-400">Sends (post-fader)</span>
+          {returns.map((bus) => {
+            const level = track.sends?.find((s) => s.returnId === bus.id)?.level ?? 0;
+            return (
+              <ParamSlider
+                key={bus.id}
+                label={bus.name}
+                value={level}
+                min={0}
+                max={1}
+                step={0.01}
+                format={(v) => `${Math.round(v * 100)}%`}
+                onChange={(v) => setTrackSend(track.id, bus.id, v)}
+              />
+            );
+          })}
+        </div>
+      </div>
+    </>
+  );
+}
+
+function EqControls({ effect, onChange }: { effect: EqEffect; onChange: (u: Partial<EqEffect>) => void }) {
+  const setBand = (index: number, updates: Partial<EqBand>) =>
+    onChange({ bands: effect.bands.map((b, i) => (i === index ? { ...b, ...updates } : b)) });
+
+  return (
+    <>
+      {effect.bands.map((band, i) => (
+        <div key={i} className="space-y-1 pb-1 border-b border-daw-border last:border-b-0">
+          <select
+            value={band.type}
+            onChange={(e) => setBand(i, { type: e.target.value as EqBandType })}
+            className="w-full px-1 py-0.5 text-[10px] bg-daw-surface border border-daw-border rounded text-zinc-300"
+          >
+            {EQ_BAND_TYPES.map((t) => (
+              <option key={t} value={t}>{t}</option>
+            ))}
+          </select>
+          {/* Frequency slider works in log space so the low end isn't crammed */}
+          <ParamSlider
+            label="Freq"
+            value={Math.log10(band.frequency)}
+            min={Math.log10(20)}
+            max={Math.log10(20000)}
+            step={0.01}
+            format={(v) => formatHz(Math.pow(10, v))}
+            onChange={(v) => setBand(i, { frequency: Math.round(Math.pow(10, v)) })}
+          />
+          {band.type !== 'lowpass' && band.type !== 'highpass' && (
+            <ParamSlider label="Gain" value={band.gain} min={-18} max={18} step={0.5} format={formatDb} onChange={(v) => setBand(i, { gain: v })} />
+          )}
+          <ParamSlider label="Q" value={band.q} min={0.1} max={10} step={0.1} format={(v) => v.toFixed(1)} onChange={(v) => setBand(i, { q: v })} />
+        </div>
+      ))}
+    </>
+  );
+}
+
+function CompressorControls({ effect, onChange }: { effect: CompressorEffect; onChange: (u: Partial<CompressorEffect>) => void }) {
+  return (
+    <>
+      <ParamSlider label="Threshold" value={effect.threshold} min={-60} max={0} step={0.5} format={formatDb} onChange={(v) => onChange({ threshold: v })} />
+      <ParamSlider label="Ratio" value={effect.ratio} min={1} max={20} step={0.5} format={(v) => `${v.toFixed(1)}:1`} onChange={(v) => onChange({ ratio: v })} />
+      <ParamSlider label="Knee" value={effect.knee} min={0} max={40} step={1} format={formatDb} onChange={(v) => onChange({ knee: v })} />
+      <ParamSlider label="Attack" value={effect.attack} min={0} max={0.2} step={0.001} format={formatMs} onChange={(v) => onChange({ attack: v })} />
+      <ParamSlider label="Release" value={effect.release} min={0.01} max={1} step={0.01} format={formatMs} onChange={(v) => onChange({ release: v })} />
+      <ParamSlider label="Makeup" value={effect.makeupGain} min={0} max={24} step={0.5} format={formatDb} onChange={(v) => onChange({ makeupGain: v })} />
+    </>
+  );
+}
+
+function SidechainControls({ track, effect, onChange }: {
+  track: Track;
+  effect: SidechainCompressorEffect;
+  onChange: (u: Partial<SidechainCompressorEffect>) => void;
+}) {
+  const tracks = useProjectStore((s) => s.project?.tracks ?? []);
+  // Groups this track feeds (and anything keyed from it) would loop back, so they aren't offered
+  const keys = tracks.filter((t) => t.id !== track.id && canKeySidechain(tracks, track.id, t.id));
+
+  return (
+    <>
+      <div className="flex items-center gap-2">
+        <span className="w-14 text-[10px] text-zinc-500">Key</span>
+        <select
+          value={effect.keyTrackId ?? ''}
+          onChange={(e) => onChange({ keyTrackId: e.target.value || null })}
+          className="flex-1 min-w-0 px-1 py-0.5 text-[10px] bg-daw-surface border border-daw-border rounded text-zinc-300"
+        >
+          <option value="">None</option>
+          {keys.map((t) => (
+            <option key={t.id} value={t.id}>{t.displayName}</option>
+          ))}
+        </select>
+      </div>
+      <ParamSlider label="Threshold" value={effect.threshold} min={-60} max={0} step={0.5} format={formatDb} onChange={(v) => onChange({ threshold: v })} />
+      <ParamSlider label="Ratio" value={effect.ratio} min={1} max={20} step={0.5} format={(v) => `${v.toFixed(1)}:1`} onChange={(v) => onChange({ ratio: v })} />
+      <ParamSlider label="Knee" value={effect.knee} min={0} max={24} step={1} format={formatDb} onChange={(v) => onChange({ knee: v })} />
+      <ParamSlider label="Attack" value={effect.attack} min={0.0005} max={0.1} step={0.0005} format={formatMs} onChange={(v) => onChange({ attack: v })} />
+      <ParamSlider label="Release" value={effect.release} min={0.01} max={1} step={0.01} format={formatMs} onChange={(v) => onChange({ release: v })} />
+      <ParamSlider label="Makeup" value={effect.makeupGain} min={0} max={24} step={0.5} format={formatDb} onChange={(v) => onChange({ makeupGain: v })} />
+    </>
+  );
+}
+
+function SaturationControls({ effect, onChange }: { effect: SaturationEffect; onChange: (u: Partial<SaturationEffect>) => void }) {
+  return (
+    <>
+      <ParamSlider label="Drive" value={effect.drive} min={0} max={36} step={0.5} format={formatDb} onChange={(v) => onChange({ drive: v })} />
+      <ParamSlider label="Mix" value={effect.mix} min={0} max={1} step={0.01} format={(v) => `${Math.round(v * 100)}%`} onChange={(v) => onChange({ mix: v })} />
+      <ParamSlider label="Output" value={effect.outputGain} min={-24} max={12} step={0.5} format={formatDb} onChange={(v) => onChange({ outputGain: v })} />
+    </>
+  );
+}
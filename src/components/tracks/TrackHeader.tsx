@@ -1,25 +1,85 @@
+import { useState } from 'react';
 import type { Track } from '../../types/project';
 import { useProjectStore } from '../../store/projectStore';
+import { useUIStore } from '../../store/uiStore';
 import { TRACK_CATALOG } from '../../constants/tracks';
+import { TrackEffectsPanel } from './TrackEffectsPanel';
+import { LevelMeter } from './LevelMeter';
+import { getAudioEngine } from '../../hooks/useAudioEngine';
+import { isGroupTrack, getTrackDescendants } from '../../utils/trackTree';
+import { formatPan } from '../../utils/pan';
 
 interface TrackHeaderProps {
   track: Track;
+  /** Nesting level inside group tracks. */
+  depth?: number;
 }
 
-export function TrackHeader({ track }: TrackHeaderProps) {
+export function TrackHeader({ track, depth = 0 }: TrackHeaderProps) {
   const updateTrack = useProjectStore((s) => s.updateTrack);
   const removeTrack = useProjectStore((s) => s.removeTrack);
+  const automationOpen = useUIStore((s) => s.automationTrackIds.has(track.id));
+  const toggleAutomationLanes = useUIStore((s) => s.toggleAutomationLanes);
+  const collapsed = useUIStore((s) => s.collapsedGroupIds.has(track.id));
+  const toggleGroupCollapsed = useUIStore((s) => s.toggleGroupCollapsed);
   const info = TRACK_CATALOG[track.trackName];
+  const [fxPanel, setFxPanel] = useState<{ x: number; y: number } | null>(null);
+  const [ctxMenu, setCtxMenu] = useState<{ x: number; y: number } | null>(null);
+  const [renaming, setRenaming] = useState(false);
+  const isGroup = isGroupTrack(track);
+
+  const pan = track.pan ?? 0;
+  const width = track.width ?? 1;
+  const activeEffects = (track.effects ?? []).filter((e) => !e.bypassed).length;
+  const laneCount = (track.automation ?? []).length;
 
   return (
     <div
-      className="flex items-center gap-2 h-16 px-2 border-b border-daw-border group"
-      style={{ borderLeft: `3px solid ${track.color}` }}
+      className={`flex items-center gap-2 h-16 pr-2 border-b border-daw-border group ${isGroup ? 'bg-daw-surface-2/40' : ''}`}
+      style={{ borderLeft: `3px solid ${track.color}`, paddingLeft: 8 + depth * 10 }}
+      onContextMenu={(e) => {
+        e.preventDefault();
+        setCtxMenu({ x: e.clientX, y: e.clientY });
+      }}
     >
-      <span className="text-base" title={info.displayName}>{info.emoji}</span>
+      {isGroup ? (
+        <button
+          onClick={() => toggleGroupCollapsed(track.id)}
+          className="text-base leading-none"
+          title={collapsed ? 'Expand group' : 'Collapse group'}
+        >
+          <span className="inline-block w-2.5 text-[9px] text-zinc-400">{collapsed ? '▸' : '▾'}</span>
+          {info.emoji}
+        </button>
+      ) : (
+        <span className="text-base" title={info.displayName}>{info.emoji}</span>
+      )}
 
       <div className="flex-1 min-w-0">
-        <div className="text-xs font-medium text-zinc-200 truncate">{track.displayName}</div>
+        {renaming ? (
+          <input
+            autoFocus
+            defaultValue={track.displayName}
+            onBlur={(e) => {
+              const name = e.target.value.trim();
+              if (name) updateTrack(track.id, { displayName: name });
+              setRenaming(false);
+            }}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') e.currentTarget.blur();
+              if (e.key === 'Escape') setRenaming(false);
+            }}
+            className="w-full px-1 text-xs bg-daw-bg border border-daw-border rounded text-zinc-200 focus:outline-none focus:border-daw-accent"
+          />
+        ) : (
+          <div
+            className="text-xs font-medium text-zinc-200 truncate"
+            onDoubleClick={() => setRenaming(true)}
+            title="Double-click to rename"
+          >
+            {track.displayName}
+          </div>
+        )}
         <input
           type="range"
           min="0"
@@ -29,9 +89,62 @@ export function TrackHeader({ track }: TrackHeaderProps) {
           className="w-full h-1 mt-1"
           title={`Volume: ${Math.round(track.volume * 100)}%`}
         />
+        <div className="flex items-center gap-1 mt-1.5">
+          <span className="text-[8px] text-zinc-500">PAN</span>
+          <input
+            type="range"
+            min="-100"
+            max="100"
+            value={Math.round(pan * 100)}
+            onChange={(e) => updateTrack(track.id, { pan: parseInt(e.target.value) / 100 })}
+            onDoubleClick={() => updateTrack(track.id, { pan: 0 })}
+            className="flex-1 min-w-0 h-1"
+            title={`Pan: ${formatPan(pan)} (double-click to center)`}
+          />
+          <span className="text-[8px] text-zinc-500">W</span>
+          <input
+            type="range"
+            min="0"
+            max="200"
+            value={Math.round(width * 100)}
+            onChange={(e) => updateTrack(track.id, { width: parseInt(e.target.value) / 100 })}
+            onDoubleClick={() => updateTrack(track.id, { width: 1 })}
+            className="flex-1 min-w-0 h-1"
+            title={`Stereo width: ${Math.round(width * 100)}% (double-click to reset)`}
+          />
+        </div>
       </div>
 
+      <LevelMeter getLevels={() => getAudioEngine().getTrackLevels(track.id)} height={52} />
+
       <div className="flex items-center gap-0.5">
+        <button
+          onClick={(e) => {
+            const rect = e.currentTarget.getBoundingClientRect();
+            setFxPanel({ x: rect.right + 4, y: rect.top });
+          }}
+          className={`w-6 h-5 text-[9px] font-bold rounded transition-colors ${
+            activeEffects > 0
+              ? 'bg-daw-accent text-white'
+              : 'bg-daw-surface-2 text-zinc-500 hover:text-zinc-300'
+          }`}
+          title={`Insert effects (${activeEffects} active)`}
+        >
+          FX
+        </button>
+        <button
+          onClick={() => toggleAutomationLanes(track.id)}
+          className={`w-6 h-5 text-[10px] font-bold rounded transition-colors ${
+            automationOpen
+              ? 'bg-daw-accent text-white'
+              : laneCount > 0
+                ? 'bg-daw-surface-2 text-daw-accent hover:text-zinc-300'
+                : 'bg-daw-surface-2 text-zinc-500 hover:text-zinc-300'
+          }`}
+          title={`Automation lanes (${laneCount})`}
+        >
+          A
+        </button>
         <button
           onClick={() => updateTrack(track.id, { muted: !track.muted })}
           className={`w-6 h-5 text-[10px] font-bold rounded transition-colors ${
@@ -57,11 +170,82 @@ export function TrackHeader({ track }: TrackHeaderProps) {
         <button
           onClick={() => removeTrack(track.id)}
           className="w-6 h-5 text-[10px] font-bold rounded bg-daw-surface-2 text-zinc-600 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-all"
-          title="Remove track"
+          title={isGroup ? 'Remove group (its tracks move up a level)' : 'Remove track'}
         >
           ×
         </button>
       </div>
+
+      {fxPanel && (
+        <TrackEffectsPanel
+          track={track}
+          x={fxPanel.x}
+          y={fxPanel.y}
+          onClose={() => setFxPanel(null)}
+        />
+      )}
+
+      {ctxMenu && (
+        <TrackContextMenu track={track} x={ctxMenu.x} y={ctxMenu.y} onClose={() => setCtxMenu(null)} />
+      )}
     </div>
   );
 }
+
+/** Grouping actions for a track: wrap it in a new group, move it into a group, or take it out. */
+function TrackContextMenu({ track, x, y, onClose }: {
+  track: Track;
+  x: number;
+  y: number;
+  onClose: () => void;
+}) {
+  const tracks = useProjectStore((s) => s.project?.tracks ?? []);
+  const addGroupTrack = useProjectStore((s) => s.addGroupTrack);
+  const setTrackParent = useProjectStore((s) => s.setTrackParent);
+
+  // A track can't go into itself or anything nested under it
+  const excluded = new Set([track.id, ...getTrackDescendants(tracks, track.id).map((t) => t.id)]);
+  const groups = tracks.filter((t) => isGroupTrack(t) && !excluded.has(t.id) && t.id !== track.parentId);
+
+  const run = (action: () => void) => {
+    action();
+    onClose();
+  };
+
+  return (
+    <>
+      <div className="fixed inset-0 z-40" onClick={onClose} onContextMenu={(e) => { e.preventDefault(); onClose(); }} />
+      <div
+        className="fixed z-50 bg-daw-surface border border-daw-border rounded shadow-xl py-1 min-w-[160px]"
+        style={{ left: x, top: y }}
+      >
+        <button
+          onClick={() => run(() => addGroupTrack([track.id]))}
+          className="w-full text-left px-3 py-1.5 text-xs text-zinc-200 hover:bg-daw-surface-2 transition-colors"
+        >
+          New Group from Track
+        </button>
+        {groups.map((g) => (
+          <button
+            key={g.id}
+            onClick={() => run(() => setTrackParent(track.id, g.id))}
+            className="w-full text-left px-3 py-1.5 text-xs text-zinc-200 hover:bg-daw-surface-2 transition-colors truncate"
+          >
+            Move to {g.displayName}
+          </button>
+        ))}
+        {track.parentId && (
+          <>
+            <div className="my-1 border-t border-daw-border" />
+            <button
+              onClick={() => run(() => setTrackParent(track.id, tracks.find((t) => t.id === track.parentId)?.parentId ?? null))}
+              className="w-full text-left px-3 py-1.5 text-xs text-zinc-200 hover:bg-daw-surface-2 transition-colors"
+            >
+              Move Out of Group
+            </button>
+          </>
+        )}
+      </div>
+    </>
+  );
+}
@@ -1,14 +1,23 @@
+import { Fragment } from 'react';
 import { useProjectStore } from '../../store/projectStore';
+import { useUIStore } from '../../store/uiStore';
 import { TrackHeader } from './TrackHeader';
+import { AutomationLaneHeaders } from './AutomationLaneHeaders';
 import { AddTrackButton } from './AddTrackButton';
+import { ReturnBusHeader } from './ReturnBusHeader';
+import { MasterBusHeader } from './MasterBusHeader';
+import { DEFAULT_RETURN_BUSES } from '../../constants/effects';
+import { getTrackRows } from '../../utils/trackTree';
 
 export function TrackList() {
   const project = useProjectStore((s) => s.project);
+  const automationTrackIds = useUIStore((s) => s.automationTrackIds);
+  const collapsedGroupIds = useUIStore((s) => s.collapsedGroupIds);
 
   if (!project) return null;
 
-  // Display tracks in visual order: lowest order at bottom
-  const sortedTracks = [...project.tracks].sort((a, b) => a.order - b.order);
+  // Display tracks in visual order: lowest order at bottom, group members under their group
+  const rows = getTrackRows(project.tracks, collapsedGroupIds);
 
   return (
     <div className="flex flex-col w-[200px] min-w-[200px] bg-daw-surface border-r border-daw-border">
@@ -16,11 +25,19 @@ export function TrackList() {
       <div className="h-6 border-b border-daw-border" />
 
       <div className="flex-1 overflow-y-auto">
-        {sortedTracks.map((track) => (
-          <TrackHeader key={track.id} track={track} />
+        {rows.map(({ track, depth }) => (
+          <Fragment key={track.id}>
+            <TrackHeader track={track} depth={depth} />
+            {automationTrackIds.has(track.id) && <AutomationLaneHeaders track={track} />}
+          </Fragment>
         ))}
       </div>
 
+      {(project.returns ?? DEFAULT_RETURN_BUSES).map((bus) => (
+        <ReturnBusHeader key={bus.id} bus={bus} />
+      ))}
+      <MasterBusHeader />
+
       <AddTrackButton />
     </div>
   );
@@ -1,15 +1,21 @@
 import { useProjectStore } from '../../store/projectStore';
+import { useTransportStore } from '../../store/transportStore';
+import { getTempoAt, getTempoMap } from '../../utils/tempoMap';
 
 export function TempoDisplay() {
   const project = useProjectStore((s) => s.project);
+  const currentTime = useTransportStore((s) => s.currentTime);
 
   if (!project) return null;
 
+  // Follows tempo and meter changes under the playhead
+  const { bpm, timeSignature } = getTempoAt(getTempoMap(project), currentTime);
+
   return (
     <div className="flex items-center gap-2 text-xs text-zinc-400">
-      <span className="font-medium text-zinc-300">{project.bpm} BPM</span>
+      <span className="font-medium text-zinc-300">{bpm} BPM</span>
       <span>{project.keyScale}</span>
-      <span>{project.timeSignature}/4</span>
+      <span>{timeSignature}/4</span>
     </div>
   );
 }
@@ -1,13 +1,14 @@
 import { useTransportStore } from '../../store/transportStore';
 import { useProjectStore } from '../../store/projectStore';
 import { formatTime, formatBarsBeats } from '../../utils/time';
+import { getTempoMap } from '../../utils/tempoMap';
 
 export function TimeDisplay() {
   const currentTime = useTransportStore((s) => s.currentTime);
   const project = useProjectStore((s) => s.project);
 
   const barsBeats = project
-    ? formatBarsBeats(currentTime, project.bpm, project.timeSignature)
+    ? formatBarsBeats(currentTime, getTempoMap(project))
     : '1.1.00';
 
   return (
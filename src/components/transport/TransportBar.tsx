@@ -7,6 +7,12 @@ export function TransportBar() {
   const { isPlaying, play, pause, stop } = useTransport();
   const loopEnabled = useTransportStore((s) => s.loopEnabled);
   const toggleLoop = useTransportStore((s) => s.toggleLoop);
+  const metronomeEnabled = useTransportStore((s) => s.metronomeEnabled);
+  const toggleMetronome = useTransportStore((s) => s.toggleMetronome);
+  const metronomeVolume = useTransportStore((s) => s.metronomeVolume);
+  const setMetronomeVolume = useTransportStore((s) => s.setMetronomeVolume);
+  const countInBars = useTransportStore((s) => s.countInBars);
+  const setCountInBars = useTransportStore((s) => s.setCountInBars);
 
   return (
     <div className="flex items-center h-10 px-3 gap-3 bg-daw-surface border-b border-daw-border">
@@ -56,6 +62,42 @@ export function TransportBar() {
 
       <div className="w-px h-6 bg-daw-border" />
 
+      <div className="flex items-center gap-1.5">
+        <button
+          onClick={toggleMetronome}
+          className={`w-8 h-8 flex items-center justify-center rounded transition-colors ${
+            metronomeEnabled ? 'bg-daw-accent text-white' : 'hover:bg-daw-surface-2 text-zinc-400'
+          }`}
+          title={metronomeEnabled ? 'Metronome On' : 'Metronome Off'}
+        >
+          <svg width="14" height="14" viewBox="0 0 14 14" fill="none" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round">
+            <path d="M5 1h4l3 12H2L5 1z" />
+            <path d="M7 10l4-6" />
+          </svg>
+        </button>
+        <input
+          type="range"
+          min="0"
+          max="100"
+          value={Math.round(metronomeVolume * 100)}
+          onChange={(e) => setMetronomeVolume(parseInt(e.target.value) / 100)}
+          className="w-16 h-1"
+          title={`Click volume: ${Math.round(metronomeVolume * 100)}%`}
+        />
+        <select
+          value={countInBars}
+          onChange={(e) => setCountInBars(parseInt(e.target.value))}
+          className="px-1 py-0.5 text-[10px] bg-daw-bg border border-daw-border rounded text-zinc-300 focus:outline-none focus:border-daw-accent"
+          title="Count-in before playback"
+        >
+          <option value={0}>No count-in</option>
+          <option value={1}>1 bar count-in</option>
+          <option value={2}>2 bar count-in</option>
+        </select>
+      </div>
+
+      <div className="w-px h-6 bg-daw-border" />
+
       <TimeDisplay />
 
       <div className="flex-1" />
@@ -0,0 +1,76 @@
+import type { AutomationTarget, Track, TrackEffect } from '../types/project';
+import { EFFECT_CATALOG } from './effects';
+import { formatPan } from '../utils/pan';
+
+/** An automatable parameter on a track, with its range and unautomated value. */
+export interface AutomationParamInfo {
+  target: AutomationTarget;
+  label: string;
+  min: number;
+  max: number;
+  /** The track's static value for this target. */
+  value: number;
+  /** Log-scaled lanes (frequencies) draw and edit evenly per octave. */
+  log?: boolean;
+  format: (v: number) => string;
+}
+
+/** Breakpoints snap to 1/16 notes (a quarter of a beat). */
+export const AUTOMATION_SNAP_DIVISION = 0.25;
+
+const formatDb = (v: number) => `${v.toFixed(1)} dB`;
+const formatPercent = (v: number) => `${Math.round(v * 100)}%`;
+const formatHz = (v: number) => (v >= 1000 ? `${(v / 1000).toFixed(1)} kHz` : `${Math.round(v)} Hz`);
+
+/** Stable identity for a target, e.g. for select values and lookups. */
+export function getAutomationTargetKey(target: AutomationTarget): string {
+  return target.type === 'effect' ? `${target.effectId}:${target.param}` : target.type;
+}
+
+function getEffectParams(effect: TrackEffect, index: number): AutomationParamInfo[] {
+  const name = `${index + 1}. ${EFFECT_CATALOG[effect.type].shortName}`;
+  const param = (
+    key: string, label: string, value: number, min: number, max: number,
+    format: (v: number) => string, log?: boolean,
+  ): AutomationParamInfo => ({
+    target: { type: 'effect', effectId: effect.id, param: key },
+    label: `${name} ${label}`,
+    value, min, max, format, log,
+  });
+
+  switch (effect.type) {
+    case 'compressor':
+    case 'sidechain':
+      return [
+        param('threshold', 'Threshold', effect.threshold, -60, 0, formatDb),
+        param('ratio', 'Ratio', effect.ratio, 1, 20, (v) => `${v.toFixed(1)}:1`),
+        param('makeupGain', 'Makeup', effect.makeupGain, 0, 24, formatDb),
+      ];
+    case 'saturation':
+      return [
+        param('mix', 'Mix', effect.mix, 0, 1, formatPercent),
+        param('outputGain', 'Output', effect.outputGain, -24, 12, formatDb),
+      ];
+    case 'eq':
+      return effect.bands.flatMap((band, i) => {
+        const freq = param(`bands.${i}.frequency`, `Band ${i + 1} Freq`, band.frequency, 20, 20000, formatHz, true);
+        // Gain has no effect on cut filters
+        if (band.type === 'lowpass' || band.type === 'highpass') return [freq];
+        return [freq, param(`bands.${i}.gain`, `Band ${i + 1} Gain`, band.gain, -18, 18, formatDb)];
+      });
+  }
+}
+
+/** Everything on a track that can carry an automation lane. */
+export function getAutomationParams(track: Track): AutomationParamInfo[] {
+  return [
+    { target: { type: 'volume' }, label: 'Volume', value: track.volume, min: 0, max: 1, format: formatPercent },
+    { target: { type: 'pan' }, label: 'Pan', value: track.pan ?? 0, min: -1, max: 1, format: formatPan },
+    ...(track.effects ?? []).flatMap(getEffectParams),
+  ];
+}
+
+export function getAutomationParamInfo(track: Track, target: AutomationTarget): AutomationParamInfo | undefined {
+  const key = getAutomationTargetKey(target);
+  return getAutomationParams(track).find((p) => getAutomationTargetKey(p.target) === key);
+}
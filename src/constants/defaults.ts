@@ -1,4 +1,4 @@
-import type { GenerationDefaults } from '../types/project';
+import type { GenerationDefaults, FadeCurve } from '../types/project';
 
 export const DEFAULT_BPM = 120;
 export const DEFAULT_KEY_SCALE = 'C major';
@@ -6,12 +6,17 @@ export const DEFAULT_TIME_SIGNATURE = 4;
 export const DEFAULT_DURATION = 30;
 export const DEFAULT_PROJECT_NAME = 'Untitled Project';
 
+export const DEFAULT_MAX_RETRIES = 3;
+export const DEFAULT_RETRY_BASE_DELAY_MS = 1000;
+
 export const DEFAULT_GENERATION: GenerationDefaults = {
   inferenceSteps: 50,
   guidanceScale: 7.0,
   shift: 3.0,
   thinking: true,
   model: '',
+  maxRetries: DEFAULT_MAX_RETRIES,
+  retryBaseDelayMs: DEFAULT_RETRY_BASE_DELAY_MS,
 };
 
 export const MIN_BPM = 30;
@@ -21,7 +26,20 @@ export const MAX_DURATION = 600;
 
 export const POLL_INTERVAL_MS = 2000;
 export const MAX_POLL_DURATION_MS = 20 * 60 * 1000; // 20 minutes
+export const MAX_RETRY_DELAY_MS = 30 * 1000;
 
 export const SAMPLE_RATE = 48000;
 export const NUM_CHANNELS = 2;
 export const BITS_PER_SAMPLE = 16;
+
+export const CLIP_GAIN_MIN_DB = -24;
+export const CLIP_GAIN_MAX_DB = 12;
+
+export const DEFAULT_FADE_CURVE: FadeCurve = 'linear';
+
+export const FADE_CURVES: Array<{ value: FadeCurve; label: string }> = [
+  { value: 'linear', label: 'Linear' },
+  { value: 'exponential', label: 'Exponential' },
+  { value: 'equal-power', label: 'Equal power' },
+  { value: 's-curve', label: 'S-curve' },
+];
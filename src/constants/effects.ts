@@ -0,0 +1,63 @@
+import type { EffectType, EqBand, TrackEffect, ReturnBus, MasterSettings } from '../types/project';
+
+type WithoutId<T> = T extends TrackEffect ? Omit<T, 'id'> : never;
+
+/** An effect's settings without its id (one variant per effect type). */
+export type EffectParams = WithoutId<TrackEffect>;
+
+export interface EffectInfo {
+  type: EffectType;
+  displayName: string;
+  shortName: string;
+}
+
+export const EFFECT_CATALOG: Record<EffectType, EffectInfo> = {
+  eq:         { type: 'eq',         displayName: 'Parametric EQ', shortName: 'EQ' },
+  compressor: { type: 'compressor', displayName: 'Compressor',    shortName: 'COMP' },
+  sidechain:  { type: 'sidechain',  displayName: 'Sidechain Compressor', shortName: 'DUCK' },
+  saturation: { type: 'saturation', displayName: 'Saturation',    shortName: 'SAT' },
+};
+
+export const EFFECT_TYPES: EffectType[] = ['eq', 'compressor', 'sidechain', 'saturation'];
+
+export const DEFAULT_EQ_BANDS: EqBand[] = [
+  { type: 'highpass',  frequency: 30,    gain: 0, q: 0.707 },
+  { type: 'lowshelf',  frequency: 120,   gain: 0, q: 0.707 },
+  { type: 'peaking',   frequency: 1000,  gain: 0, q: 1.0 },
+  { type: 'highshelf', frequency: 8000,  gain: 0, q: 0.707 },
+];
+
+/** Default parameters for a freshly inserted effect (without id). */
+export function getDefaultEffectParams(type: EffectType): EffectParams {
+  switch (type) {
+    case 'eq':
+      return { type, bypassed: false, bands: DEFAULT_EQ_BANDS.map((b) => ({ ...b })) };
+    case 'compressor':
+      return { type, bypassed: false, threshold: -18, knee: 6, ratio: 4, attack: 0.01, release: 0.2, makeupGain: 0 };
+    case 'sidechain':
+      return { type, bypassed: false, keyTrackId: null, threshold: -24, knee: 6, ratio: 6, attack: 0.005, release: 0.15, makeupGain: 0 };
+    case 'saturation':
+      return { type, bypassed: false, drive: 6, mix: 1, outputGain: 0 };
+  }
+}
+
+export const DEFAULT_RETURN_BUSES: ReturnBus[] = [
+  { id: 'reverb', name: 'Reverb', type: 'reverb', volume: 0.8, muted: false, decay: 2.2, preDelay: 0.02, damping: 8000 },
+  { id: 'delay',  name: 'Delay',  type: 'delay',  volume: 0.8, muted: false, division: 0.75, feedback: 0.35, damping: 5000 },
+];
+
+export const DELAY_DIVISIONS: { label: string; beats: number }[] = [
+  { label: '1/2',  beats: 2 },
+  { label: '1/4',  beats: 1 },
+  { label: '1/4T', beats: 2 / 3 },
+  { label: '1/8.', beats: 0.75 },
+  { label: '1/8',  beats: 0.5 },
+  { label: '1/8T', beats: 1 / 3 },
+  { label: '1/16', beats: 0.25 },
+];
+
+export const DEFAULT_MASTER: MasterSettings = {
+  volume: 1,
+  glue: { enabled: false, threshold: -12, knee: 6, ratio: 2, attack: 0.03, release: 0.3, makeupGain: 0 },
+  limiter: { enabled: true, ceiling: -1, release: 0.1 },
+};
@@ -0,0 +1,58 @@
+import type { WavBitDepth, DitherMode } from '../utils/wav';
+
+export type ExportFileType = 'wav' | 'flac' | 'mp3';
+
+export interface ExportFormat {
+  fileType: ExportFileType;
+  sampleRate: number;
+  /** WAV: 16/24/32-bit float. FLAC: 16/24 (32 falls back to 24). Ignored for MP3. */
+  bitDepth: WavBitDepth;
+  dither: DitherMode;
+  mp3Bitrate: number;
+}
+
+/** Tags written into FLAC Vorbis comments and MP3 ID3 frames. */
+export interface AudioMetadata {
+  title: string;
+  bpm: number;
+  keyScale: string;
+}
+
+export const EXPORT_FILE_TYPES: Array<{ value: ExportFileType; label: string }> = [
+  { value: 'wav', label: 'WAV' },
+  { value: 'flac', label: 'FLAC' },
+  { value: 'mp3', label: 'MP3' },
+];
+
+export const MP3_BITRATES = [128, 192, 256, 320];
+
+/** MPEG-1 Layer III tops out at 48 kHz. */
+export const MP3_MAX_SAMPLE_RATE = 48000;
+
+export const EXPORT_SAMPLE_RATES = [44100, 48000, 96000];
+
+export const EXPORT_BIT_DEPTHS: Array<{ value: WavBitDepth; label: string }> = [
+  { value: 16, label: '16-bit PCM' },
+  { value: 24, label: '24-bit PCM' },
+  { value: 32, label: '32-bit float' },
+];
+
+export const DITHER_MODES: Array<{ value: DitherMode; label: string }> = [
+  { value: 'none', label: 'None' },
+  { value: 'tpdf', label: 'TPDF' },
+  { value: 'shaped', label: 'TPDF + noise shaping' },
+];
+
+export const DEFAULT_EXPORT_FORMAT: ExportFormat = {
+  fileType: 'wav',
+  sampleRate: 48000,
+  bitDepth: 24,
+  dither: 'tpdf',
+  mp3Bitrate: 320,
+};
+
+export const LOUDNESS_TARGETS: Array<{ value: number; label: string }> = [
+  { value: -14, label: '−14 LUFS (streaming)' },
+  { value: -16, label: '−16 LUFS (podcast)' },
+  { value: -23, label: '−23 LUFS (EBU R128)' },
+];
@@ -22,6 +22,7 @@ export const TRACK_CATALOG: Record<TrackName, TrackInfo> = {
   backing_vocals:  { name: 'backing_vocals',  displayName: 'Backing Vocals',  emoji: '🎙️', color: '#ec4899', defaultOrder: 2 },
   vocals:          { name: 'vocals',          displayName: 'Vocals',          emoji: '🎤', color: '#f43f5e', defaultOrder: 1 },
   custom:          { name: 'custom',          displayName: 'Audio',           emoji: '📁', color: '#71717a', defaultOrder: 0 },
+  group:           { name: 'group',           displayName: 'Group',           emoji: '🗂️', color: '#64748b', defaultOrder: 0 },
 };
 
 export const TRACK_NAMES: TrackName[] = [
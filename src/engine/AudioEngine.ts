@@ -1,28 +1,38 @@
-import { TrackNode } from './TrackNode';
+import type { Project } from '../types/project';
+import { MixGraph, type ClipScheduleInfo, type ScheduledSource } from './MixGraph';
+import { loadWorklets } from './worklets';
+import { getEffectChainKey } from './effects';
+import type { MeterLevels } from './LevelMeterNode';
+import { Metronome } from './Metronome';
+import { getTempoMap } from '../utils/tempoMap';
 
-export interface ScheduledSource {
-  source: AudioBufferSourceNode;
-  clipId: string;
-  trackId: string;
-  startTime: number;
-}
+export type { ClipScheduleInfo, ScheduledSource } from './MixGraph';
+export type { MeterLevels } from './LevelMeterNode';
 
-export interface ClipScheduleInfo {
-  clipId: string;
-  trackId: string;
-  startTime: number;
-  buffer: AudioBuffer;
-  audioOffset: number;   // offset into the buffer (crop start)
-  clipDuration: number;  // how long to play (crop length)
+export interface LoopRegion {
+  start: number;
+  end: number;
 }
 
+// Sources are started slightly in the future so none is "late" — a late start
+// plays immediately without compensating, which would drift loop iterations.
+const SCHEDULE_LEAD = 0.05;
+// How far ahead loop iterations are queued, and how often the queue is topped up
+const LOOP_LOOKAHEAD = 1.0;
+const LOOP_SCHEDULER_INTERVAL_MS = 100;
+// Metronome clicks are queued this far ahead, topped up on a shorter interval
+const CLICK_LOOKAHEAD = 0.3;
+const CLICK_SCHEDULER_INTERVAL_MS = 50;
+
 /**
  * Core audio engine managing AudioContext, track routing, and playback scheduling.
  */
 export class AudioEngine {
   ctx: AudioContext;
-  masterGain: GainNode;
-  trackNodes: Map<string, TrackNode> = new Map();
+  /** Tracks → returns → master; the same graph exportMix renders offline. */
+  graph: MixGraph;
+  /** Click track, straight to the speakers and outside the graph (so never exported). */
+  metronome: Metronome;
   scheduledSources: ScheduledSource[] = [];
 
   private _playing = false;
@@ -31,21 +41,39 @@ export class AudioEngine {
   private _rafId: number | null = null;
   private _onTimeUpdate: ((time: number) => void) | null = null;
   private _onEnded: (() => void) | null = null;
+  private _workletsReady: Promise<void>;
 
-  // Stored for re-scheduling on loop
+  // Stored for loop iterations and re-scheduling when the loop region changes
   private _lastClips: ClipScheduleInfo[] = [];
   private _lastTotalDuration = 0;
+  private _loop: LoopRegion | null = null;
+  private _loopLength = 0;      // seconds, a whole number of sample frames
+  private _loopOrigin = 0;      // context time where the first full iteration starts
+  private _nextIteration = 0;
+  private _loopTimerId: ReturnType<typeof setInterval> | null = null;
+  private _clickTimerId: ReturnType<typeof setInterval> | null = null;
+  private _clicksScheduledTo = 0; // context time the metronome is queued up to
+  private _automationKey = '';
 
   constructor() {
     this.ctx = new AudioContext({ sampleRate: 48000 });
-    this.masterGain = this.ctx.createGain();
-    this.masterGain.connect(this.ctx.destination);
+    this.graph = new MixGraph(this.ctx, true);
+    this.metronome = new Metronome(this.ctx);
+
+    this._workletsReady = loadWorklets(this.ctx)
+      .then(() => {
+        this.graph.master.installLimiter();
+        this.graph.installWorkletEffects();
+        this.graph.installMeters();
+      })
+      .catch((error) => console.error('Failed to load audio worklets:', error));
   }
 
   async resume() {
     if (this.ctx.state === 'suspended') {
       await this.ctx.resume();
     }
+    await this._workletsReady;
   }
 
   setTimeUpdateCallback(cb: (time: number) => void) {
@@ -56,90 +84,182 @@ export class AudioEngine {
     this._onEnded = cb;
   }
 
-  getOrCreateTrackNode(trackId: string): TrackNode {
-    let node = this.trackNodes.get(trackId);
-    if (!node) {
-      node = new TrackNode(this.ctx, this.masterGain);
-      this.trackNodes.set(trackId, node);
-    }
-    return node;
-  }
-
-  removeTrackNode(trackId: string) {
-    const node = this.trackNodes.get(trackId);
-    if (node) {
-      node.disconnect();
-      this.trackNodes.delete(trackId);
-    }
-  }
-
-  updateSoloState() {
-    const anySoloed = Array.from(this.trackNodes.values()).some((n) => n.soloed);
-    for (const node of this.trackNodes.values()) {
-      node.soloActive = anySoloed;
+  /**
+   * Sync the whole mixer graph from the project. Automation edits (or insert
+   * chain rebuilds, which drop scheduled values) mid-playback reschedule from
+   * the current position.
+   */
+  syncProject(project: Project) {
+    this.graph.sync(project);
+    this.metronome.setTempoMap(getTempoMap(project));
+    const automationKey = JSON.stringify(
+      project.tracks.map((t) => [t.id, t.automation ?? [], getEffectChainKey(t.effects ?? [])]),
+    );
+    const changed = automationKey !== this._automationKey;
+    this._automationKey = automationKey;
+    if (changed && this._playing) {
+      this.schedulePlayback(this._lastClips, this.getCurrentTime(), this._lastTotalDuration, this._loop);
     }
   }
 
+  /**
+   * Start playback at `fromTime`. With a loop region (and `fromTime` before its
+   * end) playback wraps gaplessly: each iteration is scheduled ahead of time on
+   * the audio clock at whole-sample boundaries, so effect tails carry across.
+   * `countInBars` bars of metronome clicks play first (the playhead waits).
+   */
   schedulePlayback(
     clips: ClipScheduleInfo[],
     fromTime: number,
     totalDuration: number,
+    loop: LoopRegion | null = null,
+    countInBars: number = 0,
   ) {
+    this._stopScheduling();
     this.stopAllSources();
+    this.graph.clearAutomation();
 
-    // Store for loop re-scheduling
     this._lastClips = clips;
     this._lastTotalDuration = totalDuration;
 
-    for (const clip of clips) {
-      const trackNode = this.getOrCreateTrackNode(clip.trackId);
-      const source = this.ctx.createBufferSource();
-      source.buffer = clip.buffer;
-      source.connect(trackNode.inputGain);
-
-      const clipEnd = clip.startTime + clip.clipDuration;
-      if (clipEnd <= fromTime) continue;
-
-      const contextNow = this.ctx.currentTime;
-      if (clip.startTime >= fromTime) {
-        // Clip hasn't started: schedule with delay, start from audioOffset
-        const delay = clip.startTime - fromTime;
-        source.start(contextNow + delay, clip.audioOffset, clip.clipDuration);
-      } else {
-        // Clip already started: seek into it
-        const seekOffset = fromTime - clip.startTime;
-        const remaining = clip.clipDuration - seekOffset;
-        source.start(contextNow, clip.audioOffset + seekOffset, remaining);
-      }
-
-      this.scheduledSources.push({
-        source,
-        clipId: clip.clipId,
-        trackId: clip.trackId,
-        startTime: clip.startTime,
-      });
-    }
+    const sampleRate = this.ctx.sampleRate;
+    const countIn = countInBars > 0 ? this.metronome.getCountInDuration(countInBars, fromTime) : 0;
+    const startAt = Math.ceil((this.ctx.currentTime + SCHEDULE_LEAD + countIn) * sampleRate) / sampleRate;
+    if (countIn > 0) this.metronome.scheduleCountIn(countInBars, fromTime, startAt);
+    const activeLoop = loop && loop.end > loop.start && fromTime < loop.end ? loop : null;
 
     this._playing = true;
-    this._startedAt = this.ctx.currentTime;
+    this._startedAt = startAt;
     this._offset = fromTime;
+    this._loop = activeLoop;
+
+    if (activeLoop) {
+      this._loopLength = Math.round((activeLoop.end - activeLoop.start) * sampleRate) / sampleRate;
+      this._loopOrigin = startAt + Math.round((activeLoop.end - fromTime) * sampleRate) / sampleRate;
+      this._nextIteration = 0;
+      this._trackSources(this.graph.scheduleClips(clips, fromTime, startAt, activeLoop.end));
+      this.graph.scheduleAutomation(fromTime, startAt, activeLoop.end);
+      this._scheduleLoopIterations();
+      this._loopTimerId = setInterval(() => this._scheduleLoopIterations(), LOOP_SCHEDULER_INTERVAL_MS);
+    } else {
+      this._trackSources(this.graph.scheduleClips(clips, fromTime, startAt));
+      this.graph.scheduleAutomation(fromTime, startAt);
+    }
+
+    this._clicksScheduledTo = startAt;
+    this._scheduleClicks();
+    this._clickTimerId = setInterval(() => this._scheduleClicks(), CLICK_SCHEDULER_INTERVAL_MS);
+
     this._startTimeUpdate(totalDuration);
   }
 
+  /** Turn the click on or off; takes effect within CLICK_LOOKAHEAD while playing. */
+  setMetronomeEnabled(enabled: boolean) {
+    if (enabled === this.metronome.enabled) return;
+    this.metronome.enabled = enabled;
+    // Anything queued while it was off was skipped — start again from now
+    if (enabled && this._playing) {
+      this._clicksScheduledTo = Math.max(this._startedAt, this.ctx.currentTime);
+      this._scheduleClicks();
+    }
+  }
+
+  setMetronomeVolume(volume: number) {
+    this.metronome.volume = volume;
+  }
+
+  /** Change the loop region mid-playback, continuing from the current position. */
+  setLoop(loop: LoopRegion | null) {
+    const same = loop && this._loop
+      ? loop.start === this._loop.start && loop.end === this._loop.end
+      : loop === this._loop;
+    if (!this._playing || same) return;
+    this.schedulePlayback(this._lastClips, this.getCurrentTime(), this._lastTotalDuration, loop);
+  }
+
+  /** Queue loop iterations until we're LOOP_LOOKAHEAD seconds ahead of the audio clock. */
+  private _scheduleLoopIterations() {
+    const loop = this._loop;
+    if (!loop || !this._playing) return;
+    const horizon = this.ctx.currentTime + LOOP_LOOKAHEAD;
+    while (this._loopOrigin + this._nextIteration * this._loopLength < horizon) {
+      const at = this._loopOrigin + this._nextIteration * this._loopLength;
+      this._trackSources(this.graph.scheduleClips(this._lastClips, loop.start, at, loop.start + this._loopLength));
+      this.graph.scheduleAutomation(loop.start, at, loop.start + this._loopLength);
+      this._nextIteration++;
+    }
+  }
+
+  /** Queue metronome clicks until we're CLICK_LOOKAHEAD seconds ahead of the audio clock. */
+  private _scheduleClicks() {
+    if (!this._playing) return;
+    const horizon = this.ctx.currentTime + CLICK_LOOKAHEAD;
+    if (horizon <= this._clicksScheduledTo) return;
+    for (const span of this._getTimelineSpans(this._clicksScheduledTo, horizon)) {
+      this.metronome.scheduleSpan(span.from, span.to, span.contextStart);
+    }
+    this._clicksScheduledTo = horizon;
+  }
+
+  /** The timeline spans that play during context time `contextFrom`..`contextTo`, split at loop wraps. */
+  private _getTimelineSpans(contextFrom: number, contextTo: number) {
+    const spans: { from: number; to: number; contextStart: number }[] = [];
+    const loop = this._loop;
+    const straightEnd = loop ? Math.min(contextTo, this._loopOrigin) : contextTo;
+    if (contextFrom < straightEnd) {
+      const from = this._offset + (contextFrom - this._startedAt);
+      spans.push({ from, to: from + (straightEnd - contextFrom), contextStart: contextFrom });
+    }
+    if (!loop) return spans;
+
+    let iteration = Math.max(0, Math.floor((contextFrom - this._loopOrigin) / this._loopLength));
+    for (;; iteration++) {
+      const iterationStart = this._loopOrigin + iteration * this._loopLength;
+      if (iterationStart >= contextTo) break;
+      const start = Math.max(contextFrom, iterationStart);
+      const end = Math.min(contextTo, iterationStart + this._loopLength);
+      if (end > start) {
+        const from = loop.start + (start - iterationStart);
+        spans.push({ from, to: from + (end - start), contextStart: start });
+      }
+    }
+    return spans;
+  }
+
+  /** Keep sources for stop(), dropping each once it has finished playing. */
+  private _trackSources(sources: ScheduledSource[]) {
+    for (const s of sources) {
+      s.source.onended = () => {
+        const i = this.scheduledSources.indexOf(s);
+        if (i >= 0) this.scheduledSources.splice(i, 1);
+        s.source.disconnect();
+        s.fadeGain.disconnect();
+      };
+      this.scheduledSources.push(s);
+    }
+  }
+
+  private _stopScheduling() {
+    if (this._loopTimerId !== null) {
+      clearInterval(this._loopTimerId);
+      this._loopTimerId = null;
+    }
+    if (this._clickTimerId !== null) {
+      clearInterval(this._clickTimerId);
+      this._clickTimerId = null;
+    }
+    this.metronome.stop();
+  }
+
   private _startTimeUpdate(totalDuration: number) {
+    if (this._rafId !== null) cancelAnimationFrame(this._rafId);
     const tick = () => {
       if (!this._playing) return;
-      const elapsed = this.ctx.currentTime - this._startedAt;
-      const currentTime = this._offset + elapsed;
-
-      if (currentTime >= totalDuration) {
-        // Reached end — notify listener (transport handles loop vs stop)
-        this.stopAllSources();
-        this._playing = false;
-        if (this._rafId !== null) {
-          cancelAnimationFrame(this._rafId);
-          this._rafId = null;
-        }
+      const currentTime = this.getCurrentTime();
+
+      if (!this._loop && currentTime >= totalDuration) {
+        // Reached end — notify listener
+        this.stop();
         this._onEnded?.();
         return;
       }
@@ -152,6 +272,8 @@ export class AudioEngine {
 
   stop() {
     this._playing = false;
+    this._stopScheduling();
+    this.graph.clearAutomation();
     if (this._rafId !== null) {
       cancelAnimationFrame(this._rafId);
       this._rafId = null;
@@ -161,17 +283,39 @@ export class AudioEngine {
 
   stopAllSources() {
     for (const s of this.scheduledSources) {
+      s.source.onended = null;
       try { s.source.stop(); } catch { /* already stopped */ }
       s.source.disconnect();
+      s.fadeGain.disconnect();
     }
     this.scheduledSources = [];
   }
 
   get playing() { return this._playing; }
 
+  /** Latest post-fader levels for a track, or null before its meter exists. */
+  getTrackLevels(trackId: string): MeterLevels | null {
+    return this.graph.trackNodes.get(trackId)?.meter?.levels ?? null;
+  }
+
+  /** Live volume/pan from a track's running automation (null where not automated). */
+  getTrackAutomatedMix(trackId: string): { volume: number | null; pan: number | null } | null {
+    const node = this.graph.trackNodes.get(trackId);
+    return node ? { volume: node.automatedVolume, pan: node.automatedPan } : null;
+  }
+
+  getMasterLevels(): MeterLevels | null {
+    return this.graph.master.meter?.levels ?? null;
+  }
+
   getCurrentTime(): number {
     if (!this._playing) return this._offset;
-    return this._offset + (this.ctx.currentTime - this._startedAt);
+    const time = this._offset + Math.max(0, this.ctx.currentTime - this._startedAt);
+    const loop = this._loop;
+    if (loop && time >= loop.end) {
+      return loop.start + ((time - loop.end) % this._loopLength);
+    }
+    return time;
   }
 
   async decodeAudioData(blob: Blob): Promise<AudioBuffer> {
@@ -181,10 +325,7 @@ export class AudioEngine {
 
   dispose() {
     this.stop();
-    for (const node of this.trackNodes.values()) {
-      node.disconnect();
-    }
-    this.trackNodes.clear();
+    this.graph.disconnect();
     this.ctx.close();
   }
 }
@@ -0,0 +1,37 @@
+import { LEVEL_METER_PROCESSOR } from './worklets/processorNames';
+
+/** Linear sample peak and RMS per channel over the last ~33 ms. */
+export interface MeterLevels {
+  peak: [number, number];
+  rms: [number, number];
+}
+
+const SILENT: MeterLevels = { peak: [0, 0], rms: [0, 0] };
+
+/**
+ * Stereo metering tap on `source`, backed by the level-meter worklet. The
+ * latest report is kept in `levels` for the UI to poll each frame.
+ */
+export class LevelMeterNode {
+  private readonly node: AudioWorkletNode;
+  levels: MeterLevels = SILENT;
+
+  constructor(ctx: BaseAudioContext, private source: AudioNode) {
+    this.node = new AudioWorkletNode(ctx, LEVEL_METER_PROCESSOR, {
+      numberOfInputs: 1,
+      numberOfOutputs: 0,
+      channelCount: 2,
+      channelCountMode: 'explicit',
+    });
+    this.node.port.onmessage = (e: MessageEvent<MeterLevels>) => {
+      this.levels = e.data;
+    };
+    source.connect(this.node);
+  }
+
+  disconnect() {
+    this.node.port.onmessage = null;
+    this.source.disconnect(this.node);
+    this.levels = SILENT;
+  }
+}
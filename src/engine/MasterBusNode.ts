@@ -0,0 +1,112 @@
+import type { MasterSettings } from '../types/project';
+import { createEffectNode, type EffectNode } from './effects';
+import { areWorkletsLoaded } from './worklets';
+import { TRUE_PEAK_LIMITER_PROCESSOR } from './worklets/processorNames';
+import { LevelMeterNode } from './LevelMeterNode';
+import { getLimiterLatency } from './truePeakLimiter';
+
+/**
+ * Master strip: input → glue compressor → master fader → true-peak limiter → destination.
+ *
+ * The limiter is an AudioWorklet, so it can only be inserted once the
+ * processor module is registered on the context (see loadWorklets). Once it
+ * is, the bypass path is delayed by the limiter's lookahead so toggling the
+ * limiter doesn't shift the timing or comb-filter during the crossfade.
+ */
+export class MasterBusNode {
+  readonly input: GainNode;
+  readonly fader: GainNode;
+  readonly output: GainNode;
+  private readonly glue: EffectNode;
+  private readonly limiterDelay: DelayNode;
+  private readonly limiterDry: GainNode;
+  private readonly limiterWet: GainNode;
+  private limiter: AudioWorkletNode | null = null;
+  private _settings: MasterSettings | null = null;
+  /** Meter on the final output (after the limiter). */
+  meter: LevelMeterNode | null = null;
+
+  constructor(private ctx: BaseAudioContext, destination: AudioNode) {
+    this.input = ctx.createGain();
+    this.glue = createEffectNode(ctx, {
+      id: 'master-glue',
+      type: 'compressor',
+      bypassed: true,
+      threshold: 0, knee: 0, ratio: 1, attack: 0, release: 0, makeupGain: 0,
+    });
+    this.fader = ctx.createGain();
+    this.limiterDelay = ctx.createDelay();
+    this.limiterDry = ctx.createGain();
+    this.limiterWet = ctx.createGain();
+    this.output = ctx.createGain();
+
+    this.input.connect(this.glue.input);
+    this.glue.output.connect(this.fader);
+    this.fader.connect(this.limiterDelay);
+    this.limiterDelay.connect(this.limiterDry);
+    this.limiterDry.connect(this.output);
+    this.limiterWet.connect(this.output);
+    this.output.connect(destination);
+
+    if (areWorkletsLoaded(ctx)) this.installLimiter();
+  }
+
+  /** Insert the limiter worklet. No-op if already installed. */
+  installLimiter() {
+    if (this.limiter) return;
+    this.limiter = new AudioWorkletNode(this.ctx, TRUE_PEAK_LIMITER_PROCESSOR, {
+      numberOfInputs: 1,
+      numberOfOutputs: 1,
+      outputChannelCount: [2],
+    });
+    this.fader.connect(this.limiter);
+    this.limiter.connect(this.limiterWet);
+    this.limiterDelay.delayTime.value = getLimiterLatency(this.ctx.sampleRate) / this.ctx.sampleRate;
+    if (this._settings) this.update(this._settings);
+  }
+
+  get hasLimiter() { return this.limiter !== null; }
+
+  /** Tap a level meter on the output. Requires the worklets to be loaded. */
+  installMeter() {
+    if (!this.meter) this.meter = new LevelMeterNode(this.ctx, this.output);
+  }
+
+  update(settings: MasterSettings) {
+    this._settings = settings;
+    const { glue, limiter } = settings;
+
+    this.glue.update({
+      id: 'master-glue',
+      type: 'compressor',
+      bypassed: !glue.enabled,
+      threshold: glue.threshold,
+      knee: glue.knee,
+      ratio: glue.ratio,
+      attack: glue.attack,
+      release: glue.release,
+      makeupGain: glue.makeupGain,
+    });
+    this.fader.gain.value = settings.volume;
+
+    const limiterActive = limiter.enabled && this.limiter !== null;
+    this.limiterDry.gain.value = limiterActive ? 0 : 1;
+    this.limiterWet.gain.value = limiterActive ? 1 : 0;
+    if (this.limiter) {
+      this.limiter.parameters.get('ceiling')!.value = limiter.ceiling;
+      this.limiter.parameters.get('release')!.value = limiter.release;
+    }
+  }
+
+  disconnect() {
+    this.meter?.disconnect();
+    this.input.disconnect();
+    this.glue.disconnect();
+    this.fader.disconnect();
+    this.limiter?.disconnect();
+    this.limiterDelay.disconnect();
+    this.limiterDry.disconnect();
+    this.limiterWet.disconnect();
+    this.output.disconnect();
+  }
+}
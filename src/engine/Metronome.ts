@@ -0,0 +1,105 @@
+import { buildTempoMap, getBeatsInRange, getTempoAt, type TempoMap } from '../utils/tempoMap';
+
+const CLICK_SECONDS = 0.03;
+const ACCENT_HZ = 1760;
+const BEAT_HZ = 1320;
+
+/** A short decaying sine blip. */
+function makeClick(ctx: BaseAudioContext, frequency: number, level: number): AudioBuffer {
+  const length = Math.round(CLICK_SECONDS * ctx.sampleRate);
+  const buffer = ctx.createBuffer(1, length, ctx.sampleRate);
+  const data = buffer.getChannelData(0);
+  for (let i = 0; i < length; i++) {
+    const t = i / ctx.sampleRate;
+    data[i] = level * Math.sin(2 * Math.PI * frequency * t) * Math.exp(-t / (CLICK_SECONDS / 5));
+  }
+  return buffer;
+}
+
+/**
+ * Click track on its own gain straight into the speakers — it never touches
+ * the MixGraph, so exports (which render a MixGraph offline) can't contain it.
+ * The AudioEngine tells it which timeline spans land where on the audio clock;
+ * clicks are queued ahead as buffer sources, never timed from the UI thread.
+ */
+export class Metronome {
+  private readonly output: GainNode;
+  private readonly accentClick: AudioBuffer;
+  private readonly beatClick: AudioBuffer;
+  private sources: AudioBufferSourceNode[] = [];
+  private tempo: TempoMap = buildTempoMap(120, 4);
+  private _enabled = false;
+
+  constructor(private ctx: AudioContext) {
+    this.output = ctx.createGain();
+    this.output.connect(ctx.destination);
+    this.accentClick = makeClick(ctx, ACCENT_HZ, 1);
+    this.beatClick = makeClick(ctx, BEAT_HZ, 0.6);
+  }
+
+  get enabled() { return this._enabled; }
+  set enabled(v: boolean) {
+    this._enabled = v;
+    if (!v) this.stop();
+  }
+
+  set volume(v: number) {
+    this.output.gain.value = Math.max(0, Math.min(1, v));
+  }
+
+  setTempoMap(tempo: TempoMap) {
+    this.tempo = tempo;
+  }
+
+  /** Length of a `bars`-bar count-in into timeline `at`, in the tempo and meter there. */
+  getCountInDuration(bars: number, at: number): number {
+    const { bpm, timeSignature } = getTempoAt(this.tempo, at);
+    return (bars * timeSignature * 60) / bpm;
+  }
+
+  /**
+   * Queue the clicks for timeline `from`..`to`, with `from` landing on context
+   * time `contextStart`. Does nothing while disabled.
+   */
+  scheduleSpan(from: number, to: number, contextStart: number) {
+    if (!this._enabled) return;
+    for (const { time, isBar } of getBeatsInRange(this.tempo, from, to)) {
+      this.click(contextStart + (time - from), isBar);
+    }
+  }
+
+  /**
+   * Queue `bars` bars of clicks ending at context time `contextEnd`, enabled
+   * or not, in the tempo and meter at timeline `at`.
+   */
+  scheduleCountIn(bars: number, at: number, contextEnd: number) {
+    const { bpm, timeSignature } = getTempoAt(this.tempo, at);
+    const beats = bars * timeSignature;
+    for (let i = 0; i < beats; i++) {
+      this.click(contextEnd - ((beats - i) * 60) / bpm, i % timeSignature === 0);
+    }
+  }
+
+  private click(at: number, accent: boolean) {
+    const source = this.ctx.createBufferSource();
+    source.buffer = accent ? this.accentClick : this.beatClick;
+    source.connect(this.output);
+    source.onended = () => {
+      const i = this.sources.indexOf(source);
+      if (i >= 0) this.sources.splice(i, 1);
+      source.disconnect();
+    };
+    source.start(Math.max(at, this.ctx.currentTime));
+    this.sources.push(source);
+  }
+
+  /** Silence every queued click. */
+  stop() {
+    for (const source of this.sources) {
+      source.onended = null;
+      try { source.stop(); } catch { /* already stopped */ }
+      source.disconnect();
+    }
+    this.sources = [];
+  }
+}
@@ -0,0 +1,262 @@
+import type { Project, Track, ReturnBus, AutomationLane } from '../types/project';
+import { DEFAULT_RETURN_BUSES, DEFAULT_MASTER } from '../constants/effects';
+import { TrackNode } from './TrackNode';
+import { ReturnBusNode } from './ReturnBusNode';
+import { MasterBusNode } from './MasterBusNode';
+import { applyCrossfades, scheduleClipFades, type ClipFades } from './fades';
+import { DEFAULT_FADE_CURVE } from '../constants/defaults';
+import { areWorkletsLoaded } from './worklets';
+import { dbToGain } from '../utils/db';
+import { getParentTrack, isSoloSafe, canKeySidechain } from '../utils/trackTree';
+import { hasPlayableAudio } from '../utils/clipAudio';
+
+export interface ClipScheduleInfo extends ClipFades {
+  clipId: string;
+  trackId: string;
+  startTime: number;
+  buffer: AudioBuffer;
+  audioOffset: number;   // offset into the buffer (crop start)
+  clipDuration: number;  // how long to play (crop length)
+  level: number;         // linear clip gain, negative when polarity is inverted
+}
+
+export interface ScheduledSource {
+  source: AudioBufferSourceNode;
+  /** Per-source gain carrying the clip's fade envelope. */
+  fadeGain: GainNode;
+  clipId: string;
+  trackId: string;
+  startTime: number;
+}
+
+/**
+ * The full mixer graph for one context: track strips (nested into group
+ * tracks) → aux returns → master bus.
+ *
+ * AudioEngine builds one on the live AudioContext and exportMix builds one on an
+ * OfflineAudioContext, so a bounce goes through exactly the nodes playback does.
+ * Only the live graph is built with `metering`.
+ */
+export class MixGraph {
+  readonly master: MasterBusNode;
+  readonly trackNodes: Map<string, TrackNode> = new Map();
+  readonly returnBuses: Map<string, ReturnBusNode> = new Map();
+  private automation: Map<string, AutomationLane[]> = new Map();
+
+  constructor(private ctx: BaseAudioContext, private metering: boolean = false) {
+    this.master = new MasterBusNode(ctx, ctx.destination);
+    this.master.update(DEFAULT_MASTER);
+    if (metering && areWorkletsLoaded(ctx)) this.master.installMeter();
+  }
+
+  getOrCreateTrackNode(trackId: string): TrackNode {
+    let node = this.trackNodes.get(trackId);
+    if (!node) {
+      node = new TrackNode(this.ctx, this.master.input);
+      if (this.metering && areWorkletsLoaded(this.ctx)) node.installMeter();
+      this.trackNodes.set(trackId, node);
+    }
+    return node;
+  }
+
+  /** Build worklet-based insert effects created before the worklets finished loading. */
+  installWorkletEffects() {
+    for (const node of this.trackNodes.values()) node.installWorkletEffects();
+  }
+
+  /** Add meters to nodes built before the worklets finished loading. */
+  installMeters() {
+    if (!this.metering) return;
+    this.master.installMeter();
+    for (const node of this.trackNodes.values()) node.installMeter();
+  }
+
+  /** Sync the whole mixer graph (returns first, so track sends have targets). */
+  sync(project: Project) {
+    this.master.update(project.master ?? DEFAULT_MASTER);
+    this.syncReturns(project.returns ?? DEFAULT_RETURN_BUSES, project.bpm);
+    this.syncTracks(project.tracks);
+  }
+
+  private syncReturns(returns: ReturnBus[], bpm: number) {
+    const ids = new Set(returns.map((r) => r.id));
+    for (const [id, node] of this.returnBuses) {
+      if (!ids.has(id)) {
+        node.disconnect();
+        this.returnBuses.delete(id);
+      }
+    }
+
+    for (const bus of returns) {
+      let node = this.returnBuses.get(bus.id);
+      if (node && node.type !== bus.type) {
+        node.disconnect();
+        node = undefined;
+      }
+      if (!node) {
+        node = new ReturnBusNode(this.ctx, bus, this.master.input);
+        this.returnBuses.set(bus.id, node);
+      }
+      node.update(bus, bpm);
+    }
+  }
+
+  /**
+   * Push volume, pan/width, mute/solo, insert effects and sends from the project
+   * onto the TrackNodes, route each one into its group track or the master,
+   * and connect sidechain keys.
+   */
+  private syncTracks(tracks: Track[]) {
+    const ids = new Set(tracks.map((t) => t.id));
+    for (const [id, node] of this.trackNodes) {
+      if (!ids.has(id)) {
+        node.disconnect();
+        this.trackNodes.delete(id);
+      }
+    }
+
+    const returnInputs = new Map<string, AudioNode>();
+    for (const [id, node] of this.returnBuses) returnInputs.set(id, node.input);
+
+    const anySoloed = tracks.some((t) => t.soloed);
+    this.automation = new Map(tracks.map((t) => [t.id, t.automation ?? []]));
+    for (const track of tracks) this.getOrCreateTrackNode(track.id);
+    for (const track of tracks) {
+      const trackNode = this.getOrCreateTrackNode(track.id);
+      const parent = getParentTrack(tracks, track);
+      trackNode.setDestination(parent ? this.getOrCreateTrackNode(parent.id).inputGain : this.master.input);
+      trackNode.volume = track.volume;
+      trackNode.pan = track.pan ?? 0;
+      trackNode.width = track.width ?? 1;
+      trackNode.muted = track.muted;
+      // Soloing a group lets its children through; soloing a child keeps its groups open
+      trackNode.soloed = anySoloed && isSoloSafe(tracks, track);
+      trackNode.soloActive = anySoloed;
+      trackNode.setEffects(track.effects ?? []);
+      trackNode.setSends(track.sends ?? [], returnInputs);
+    }
+
+    // Keys that would feed a track's own output back into it are left unconnected
+    for (const track of tracks) {
+      this.getOrCreateTrackNode(track.id).setSidechainKeys(track.effects ?? [], (keyTrackId) =>
+        canKeySidechain(tracks, track.id, keyTrackId)
+          ? this.trackNodes.get(keyTrackId)?.sidechainOutput ?? null
+          : null,
+      );
+    }
+  }
+
+  /**
+   * Start every clip that is still audible at `fromTime` (timeline seconds),
+   * with timeline `fromTime` landing on context time `contextStart`. Crops are
+   * honoured: playback reads `clipDuration` seconds from `audioOffset`.
+   * With `toTime`, clips are cut off there (effect tails still ring out).
+   * Each source plays through its own gain node carrying clip gain, polarity,
+   * fades and crossfades.
+   */
+  scheduleClips(
+    clips: ClipScheduleInfo[],
+    fromTime: number,
+    contextStart: number,
+    toTime: number = Infinity,
+  ): ScheduledSource[] {
+    const scheduled: ScheduledSource[] = [];
+    for (const clip of clips) {
+      const clipEnd = clip.startTime + clip.clipDuration;
+      if (clipEnd <= fromTime || clip.startTime >= toTime) continue;
+
+      const trackNode = this.getOrCreateTrackNode(clip.trackId);
+      const source = this.ctx.createBufferSource();
+      source.buffer = clip.buffer;
+      const fadeGain = this.ctx.createGain();
+      source.connect(fadeGain);
+      fadeGain.connect(trackNode.inputGain);
+
+      const playFrom = Math.max(fromTime, clip.startTime);
+      const playTo = Math.min(clipEnd, toTime);
+      scheduleClipFades(
+        fadeGain.gain, clip, clip.startTime, clipEnd,
+        playFrom, playTo, contextStart + (playFrom - fromTime), clip.level,
+      );
+
+      if (clip.startTime >= fromTime) {
+        // Clip hasn't started: schedule with delay, start from audioOffset
+        const delay = clip.startTime - fromTime;
+        const length = Math.min(clipEnd, toTime) - clip.startTime;
+        source.start(contextStart + delay, clip.audioOffset, length);
+      } else {
+        // Clip already started: seek into it
+        const seekOffset = fromTime - clip.startTime;
+        const remaining = Math.min(clipEnd, toTime) - fromTime;
+        source.start(contextStart, clip.audioOffset + seekOffset, remaining);
+      }
+
+      scheduled.push({
+        source,
+        fadeGain,
+        clipId: clip.clipId,
+        trackId: clip.trackId,
+        startTime: clip.startTime,
+      });
+    }
+    return scheduled;
+  }
+
+  /**
+   * Schedule every track's automation lanes (as of the last sync) from
+   * timeline `fromTime`, landing on context time `contextStart`, up to `toTime`.
+   */
+  scheduleAutomation(fromTime: number, contextStart: number, toTime: number = Infinity) {
+    for (const [trackId, lanes] of this.automation) {
+      this.trackNodes.get(trackId)?.automate(lanes, fromTime, toTime, contextStart);
+    }
+  }
+
+  clearAutomation() {
+    for (const node of this.trackNodes.values()) node.clearAutomation();
+  }
+
+  disconnect() {
+    for (const node of this.trackNodes.values()) node.disconnect();
+    this.trackNodes.clear();
+    for (const node of this.returnBuses.values()) node.disconnect();
+    this.returnBuses.clear();
+    this.master.disconnect();
+  }
+}
+
+/**
+ * Load and decode every clip with playable audio in the project into schedule entries,
+ * with crossfades resolved where clips on a track overlap.
+ * Used by both the transport and export so they see the same crops and fades.
+ */
+export async function collectClipSchedule(
+  project: Project,
+  loadBuffer: (audioKey: string, reversed: boolean) => Promise<AudioBuffer | null>,
+): Promise<ClipScheduleInfo[]> {
+  const clips: ClipScheduleInfo[] = [];
+  for (const track of project.tracks) {
+    for (const clip of track.clips) {
+      if (!hasPlayableAudio(clip) || !clip.isolatedAudioKey) continue;
+      const reversed = clip.reversed ?? false;
+      const buffer = await loadBuffer(clip.isolatedAudioKey, reversed);
+      if (!buffer) continue;
+      // A reversed clip plays the same cropped region, read from the far end of the reversed buffer
+      const audioOffset = clip.audioOffset ?? 0;
+      clips.push({
+        clipId: clip.id,
+        trackId: track.id,
+        startTime: clip.startTime,
+        buffer,
+        audioOffset: reversed ? Math.max(0, buffer.duration - audioOffset - clip.duration) : audioOffset,
+        clipDuration: clip.duration,
+        level: dbToGain(clip.gain ?? 0) * (clip.polarityInverted ? -1 : 1),
+        fadeIn: clip.fadeIn ?? 0,
+        fadeOut: clip.fadeOut ?? 0,
+        fadeInCurve: clip.fadeInCurve ?? DEFAULT_FADE_CURVE,
+        fadeOutCurve: clip.fadeOutCurve ?? DEFAULT_FADE_CURVE,
+      });
+    }
+  }
+  return applyCrossfades(clips);
+}
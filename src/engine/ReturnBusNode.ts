@@ -0,0 +1,87 @@
+import type { ReturnBus, ReverbReturn, DelayReturn } from '../types/project';
+import { generateImpulseResponse } from './impulseResponse';
+
+const MAX_DELAY_SECONDS = 5;
+
+/**
+ * Aux return: sends sum into `input`, run through the shared processor
+ * (convolution reverb or tempo-synced delay), then the return fader.
+ */
+export class ReturnBusNode {
+  readonly input: GainNode;
+  readonly returnGain: GainNode;
+  readonly type: ReturnBus['type'];
+  private readonly nodes: AudioNode[] = [];
+
+  // Reverb
+  private preDelay: DelayNode | null = null;
+  private convolver: ConvolverNode | null = null;
+  private _decay: number | null = null;
+
+  // Delay
+  private delay: DelayNode | null = null;
+  private feedback: GainNode | null = null;
+
+  private damping: BiquadFilterNode;
+
+  constructor(private ctx: BaseAudioContext, bus: ReturnBus, destination: AudioNode) {
+    this.type = bus.type;
+    this.input = ctx.createGain();
+    this.returnGain = ctx.createGain();
+    this.damping = ctx.createBiquadFilter();
+    this.damping.type = 'lowpass';
+
+    if (bus.type === 'reverb') {
+      this.preDelay = ctx.createDelay(1);
+      this.convolver = ctx.createConvolver();
+      this.input.connect(this.preDelay);
+      this.preDelay.connect(this.convolver);
+      this.convolver.connect(this.damping);
+      this.damping.connect(this.returnGain);
+      this.nodes.push(this.preDelay, this.convolver);
+    } else {
+      // input → delay → out, delay → damping → feedback → delay
+      this.delay = ctx.createDelay(MAX_DELAY_SECONDS);
+      this.feedback = ctx.createGain();
+      this.input.connect(this.delay);
+      this.delay.connect(this.returnGain);
+      this.delay.connect(this.damping);
+      this.damping.connect(this.feedback);
+      this.feedback.connect(this.delay);
+      this.nodes.push(this.delay, this.feedback);
+    }
+    this.nodes.push(this.damping);
+
+    this.returnGain.connect(destination);
+  }
+
+  update(bus: ReturnBus, bpm: number) {
+    this.returnGain.gain.value = bus.muted ? 0 : bus.volume;
+    if (bus.type === 'reverb') this._updateReverb(bus);
+    else this._updateDelay(bus, bpm);
+  }
+
+  private _updateReverb(bus: ReverbReturn) {
+    if (!this.preDelay || !this.convolver) return;
+    this.preDelay.delayTime.value = Math.max(0, Math.min(1, bus.preDelay));
+    this.damping.frequency.value = bus.damping;
+    if (bus.decay !== this._decay) {
+      this._decay = bus.decay;
+      this.convolver.buffer = generateImpulseResponse(this.ctx, bus.decay);
+    }
+  }
+
+  private _updateDelay(bus: DelayReturn, bpm: number) {
+    if (!this.delay || !this.feedback) return;
+    const seconds = (bus.division * 60) / bpm;
+    this.delay.delayTime.value = Math.max(0, Math.min(MAX_DELAY_SECONDS, seconds));
+    this.feedback.gain.value = Math.max(0, Math.min(0.95, bus.feedback));
+    this.damping.frequency.value = bus.damping;
+  }
+
+  disconnect() {
+    this.input.disconnect();
+    for (const node of this.nodes) node.disconnect();
+    this.returnGain.disconnect();
+  }
+}
@@ -0,0 +1,62 @@
+/**
+ * Mid/side stereo width stage.
+ *
+ * width 0 = mono (side removed), 1 = unchanged, 2 = side doubled.
+ *   L' = L·(1+w)/2 + R·(1−w)/2
+ *   R' = R·(1+w)/2 + L·(1−w)/2
+ */
+export class StereoWidthNode {
+  readonly input: GainNode;
+  readonly output: ChannelMergerNode;
+  private readonly splitter: ChannelSplitterNode;
+  private readonly direct: [GainNode, GainNode];
+  private readonly cross: [GainNode, GainNode];
+  private _width = 1;
+
+  constructor(ctx: BaseAudioContext) {
+    // Force a stereo upmix so mono clips land on both channels before splitting
+    this.input = ctx.createGain();
+    this.input.channelCount = 2;
+    this.input.channelCountMode = 'explicit';
+    this.input.channelInterpretation = 'speakers';
+
+    this.splitter = ctx.createChannelSplitter(2);
+    this.output = ctx.createChannelMerger(2);
+    this.direct = [ctx.createGain(), ctx.createGain()];
+    this.cross = [ctx.createGain(), ctx.createGain()];
+
+    this.input.connect(this.splitter);
+    // L → L', R → R'
+    this.splitter.connect(this.direct[0], 0);
+    this.direct[0].connect(this.output, 0, 0);
+    this.splitter.connect(this.direct[1], 1);
+    this.direct[1].connect(this.output, 0, 1);
+    // L → R', R → L'
+    this.splitter.connect(this.cross[0], 0);
+    this.cross[0].connect(this.output, 0, 1);
+    this.splitter.connect(this.cross[1], 1);
+    this.cross[1].connect(this.output, 0, 0);
+
+    this._apply();
+  }
+
+  get width() { return this._width; }
+  set width(w: number) {
+    this._width = Math.max(0, Math.min(2, w));
+    this._apply();
+  }
+
+  private _apply() {
+    const direct = (1 + this._width) / 2;
+    const cross = (1 - this._width) / 2;
+    for (const g of this.direct) g.gain.value = direct;
+    for (const g of this.cross) g.gain.value = cross;
+  }
+
+  disconnect() {
+    this.input.disconnect();
+    this.splitter.disconnect();
+    for (const g of [...this.direct, ...this.cross]) g.disconnect();
+    this.output.disconnect();
+  }
+}
@@ -1,21 +1,66 @@
+import type { AutomationLane, TrackEffect, TrackSend } from '../types/project';
+import { createEffectNode, getEffectChainKey, type EffectNode } from './effects';
+import { StereoWidthNode } from './StereoWidthNode';
+import { scheduleAutomation } from './automation';
+import { LevelMeterNode } from './LevelMeterNode';
+
 /**
- * Per-track audio routing: GainNode for volume control + mute/solo.
+ * Per-track audio routing:
+ *   inputGain → insert effects → stereo width (M/S) → panner → automationGain → volumeGain (volume + mute/solo)
+ * plus post-fader sends from volumeGain to aux returns. volumeGain feeds the
+ * master, or the inputGain of the group track it is nested in. sidechainOutput
+ * is a post-fader, pre-mute copy that keys other tracks' sidechain compressors. While a volume
+ * lane plays, it drives automationGain and volumeGain carries only mute/solo.
  */
 export class TrackNode {
   readonly inputGain: GainNode;
+  readonly widthNode: StereoWidthNode;
+  readonly panner: StereoPannerNode;
+  readonly automationGain: GainNode;
   readonly volumeGain: GainNode;
+  readonly sidechainOutput: GainNode;
+  private _effects: EffectNode[] = [];
+  private _effectChainKey = '';
+  private _sends: Map<string, { gain: GainNode; target: AudioNode }> = new Map();
+  /** Post-fader meter; only installed on the live context (see MixGraph). */
+  meter: LevelMeterNode | null = null;
 
   private _volume = 0.8;
   private _muted = false;
   private _soloed = false;
   private _soloActive = false; // true if any track in the session is soloed
+  private _pan = 0;
+  private _volumeAutomated = false;
+  private _panAutomated = false;
 
-  constructor(private ctx: AudioContext, destination: AudioNode) {
+  constructor(private ctx: BaseAudioContext, private destination: AudioNode) {
     this.inputGain = ctx.createGain();
+    this.widthNode = new StereoWidthNode(ctx);
+    this.panner = ctx.createStereoPanner();
+    this.automationGain = ctx.createGain();
     this.volumeGain = ctx.createGain();
-    this.inputGain.connect(this.volumeGain);
+    this.sidechainOutput = ctx.createGain();
+    this.inputGain.connect(this.widthNode.input);
+    this.widthNode.output.connect(this.panner);
+    this.panner.connect(this.automationGain);
+    this.automationGain.connect(this.volumeGain);
+    this.automationGain.connect(this.sidechainOutput);
     this.volumeGain.connect(destination);
     this.volumeGain.gain.value = this._volume;
+    this.sidechainOutput.gain.value = this._volume;
+  }
+
+  /** Route the fader output somewhere else (a group track's input or the master). */
+  setDestination(destination: AudioNode) {
+    if (destination === this.destination) return;
+    this.volumeGain.disconnect(this.destination);
+    this.volumeGain.connect(destination);
+    this.destination = destination;
+  }
+
+  /** Tap a post-fader level meter. Requires the worklets to be loaded. */
+  installMeter() {
+    if (!this.meter) this.meter = new LevelMeterNode(this.ctx, this.volumeGain);
   }
 
   get volume() { return this._volume; }
@@ -24,6 +69,17 @@ export class TrackNode {
     this._applyGain();
   }
 
+  get pan() { return this._pan; }
+  set pan(v: number) {
+    this._pan = Math.max(-1, Math.min(1, v));
+    if (!this._panAutomated) this.panner.pan.value = this._pan;
+  }
+
+  get width() { return this.widthNode.width; }
+  set width(v: number) {
+    this.widthNode.width = v;
+  }
+
   get muted() { return this._muted; }
   set muted(v: boolean) {
     this._muted = v;
@@ -36,6 +92,127 @@ export class TrackNode {
     this._applyGain();
   }
 
+  /**
+   * Apply the track's insert chain. Parameter-only changes update the existing
+   * nodes; adding, removing or reordering effects rebuilds the chain.
+   */
+  setEffects(effects: TrackEffect[]) {
+    const key = getEffectChainKey(effects);
+    if (key === this._effectChainKey) {
+      effects.forEach((effect, i) => this._effects[i].update(effect));
+      return;
+    }
+
+    this.inputGain.disconnect();
+    for (const node of this._effects) node.disconnect();
+
+    this._effects = effects.map((effect) => createEffectNode(this.ctx, effect));
+    this._effectChainKey = key;
+
+    let prev: AudioNode = this.inputGain;
+    for (const node of this._effects) {
+      prev.connect(node.input);
+      prev = node.output;
+    }
+    prev.connect(this.widthNode.input);
+  }
+
+  /**
+   * Connect each sidechain compressor in `effects` (the chain just passed to
+   * setEffects) to its key track's sidechainOutput; `resolve` returns null
+   * for keys that are missing or not allowed.
+   */
+  setSidechainKeys(effects: TrackEffect[], resolve: (keyTrackId: string) => AudioNode | null) {
+    effects.forEach((effect, i) => {
+      if (effect.type !== 'sidechain') return;
+      this._effects[i]?.setKey?.(effect.keyTrackId ? resolve(effect.keyTrackId) : null);
+    });
+  }
+
+  /** Build worklet-based effects created before the worklets were loaded. */
+  installWorkletEffects() {
+    for (const node of this._effects) node.installWorklet?.();
+  }
+
+  /**
+   * Post-fader sends. `returnInputs` maps return bus id → its input node;
+   * sends to returns that no longer exist are dropped.
+   */
+  setSends(sends: TrackSend[], returnInputs: Map<string, AudioNode>) {
+    const wanted = new Set<string>();
+    for (const send of sends) {
+      const target = returnInputs.get(send.returnId);
+      if (!target) continue;
+      wanted.add(send.returnId);
+
+      let entry = this._sends.get(send.returnId);
+      if (entry && entry.target !== target) {
+        // Return bus was rebuilt — reconnect to its new input
+        entry.gain.disconnect();
+        entry.gain.connect(target);
+        entry.target = target;
+      }
+      if (!entry) {
+        const gain = this.ctx.createGain();
+        this.volumeGain.connect(gain);
+        gain.connect(target);
+        entry = { gain, target };
+        this._sends.set(send.returnId, entry);
+      }
+      entry.gain.gain.value = send.level;
+    }
+
+    for (const [returnId, entry] of this._sends) {
+      if (!wanted.has(returnId)) {
+        this.volumeGain.disconnect(entry.gain);
+        entry.gain.disconnect();
+        this._sends.delete(returnId);
+      }
+    }
+  }
+
+  /**
+   * Schedule the track's automation lanes over timeline `from`..`to`, with
+   * `from` landing on context time `contextStart`. Lanes without points
+   * leave their target on its static value.
+   */
+  automate(lanes: AutomationLane[], from: number, to: number, contextStart: number) {
+    for (const lane of lanes) {
+      if (lane.points.length === 0) continue;
+      const { target } = lane;
+      if (target.type === 'volume') {
+        this._volumeAutomated = true;
+        this._applyGain();
+        scheduleAutomation({ param: this.automationGain.gain }, lane.points, from, to, contextStart);
+      } else if (target.type === 'pan') {
+        this._panAutomated = true;
+        scheduleAutomation({ param: this.panner.pan }, lane.points, from, to, contextStart);
+      } else {
+        this._effects
+          .find((e) => e.effectId === target.effectId)
+          ?.automate(target.param, lane.points, from, to, contextStart);
+      }
+    }
+  }
+
+  /** Cancel scheduled automation and return every target to its static value. */
+  clearAutomation() {
+    this.automationGain.gain.cancelScheduledValues(0);
+    this.automationGain.gain.value = 1;
+    this.panner.pan.cancelScheduledValues(0);
+    this.panner.pan.value = this._pan;
+    this._volumeAutomated = false;
+    this._panAutomated = false;
+    this._applyGain();
+    for (const node of this._effects) node.clearAutomation();
+  }
+
+  /** Volume the running automation is applying, or null when volume isn't automated. */
+  get automatedVolume() { return this._volumeAutomated ? this.automationGain.gain.value : null; }
+
+  /** Pan the running automation is applying, or null when pan isn't automated. */
+  get automatedPan() { return this._panAutomated ? this.panner.pan.value : null; }
+
   /** Called externally when any track's solo state changes */
   set soloActive(v: boolean) {
     this._soloActive = v;
@@ -43,17 +220,26 @@ export class TrackNode {
   }
 
   private _applyGain() {
+    this.sidechainOutput.gain.value = this._volumeAutomated ? 1 : this._volume;
     if (this._muted) {
       this.volumeGain.gain.value = 0;
     } else if (this._soloActive && !this._soloed) {
       this.volumeGain.gain.value = 0;
     } else {
-      this.volumeGain.gain.value = this._volume;
+      this.volumeGain.gain.value = this._volumeAutomated ? 1 : this._volume;
     }
   }
 
   disconnect() {
+    this.meter?.disconnect();
     this.inputGain.disconnect();
+    for (const node of this._effects) node.disconnect();
+    this.widthNode.disconnect();
+    this.panner.disconnect();
+    this.automationGain.disconnect();
     this.volumeGain.disconnect();
+    this.sidechainOutput.disconnect();
+    for (const { gain } of this._sends.values()) gain.disconnect();
+    this._sends.clear();
   }
 }
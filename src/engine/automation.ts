@@ -0,0 +1,65 @@
+import type { AutomationPoint } from '../types/project';
+
+/**
+ * An AudioParam an automation lane drives. `map` converts lane values into the
+ * param's units (e.g. dB → linear gain); without it values are used as-is.
+ */
+export interface AutomatableParam {
+  param: AudioParam;
+  map?: (value: number) => number;
+}
+
+// Non-linear maps are approximated by ramping through intermediate points
+const MAPPED_STEP_SECONDS = 0.05;
+const MAX_MAPPED_STEPS = 64;
+
+/** Lane value at timeline time `t`: linear between breakpoints, held before the first and after the last. */
+export function getAutomationValueAt(points: AutomationPoint[], t: number): number {
+  if (t <= points[0].time) return points[0].value;
+  for (let i = 1; i < points.length; i++) {
+    const b = points[i];
+    if (t <= b.time) {
+      const a = points[i - 1];
+      const span = b.time - a.time;
+      return span > 0 ? a.value + ((t - a.time) / span) * (b.value - a.value) : b.value;
+    }
+  }
+  return points[points.length - 1].value;
+}
+
+/**
+ * Schedule a lane's breakpoints between timeline `from` and `to` as linear
+ * ramps, with `from` landing on context time `contextStart`. Ramps never
+ * conflict with other automation events, so loop iterations can be queued
+ * back to back on the same param.
+ */
+export function scheduleAutomation(
+  target: AutomatableParam,
+  points: AutomationPoint[],
+  from: number,
+  to: number,
+  contextStart: number,
+) {
+  if (points.length === 0) return;
+  const { param } = target;
+  const map = target.map ?? ((v: number) => v);
+  const at = (t: number) => contextStart + (t - from);
+
+  param.setValueAtTime(map(getAutomationValueAt(points, from)), at(from));
+
+  const times = points.map((p) => p.time).filter((t) => t > from && t < to);
+  if (Number.isFinite(to) && points[points.length - 1].time > from) times.push(to);
+
+  let prev = from;
+  for (const time of times) {
+    if (target.map) {
+      const steps = Math.min(MAX_MAPPED_STEPS, Math.max(1, Math.ceil((time - prev) / MAPPED_STEP_SECONDS)));
+      for (let i = 1; i < steps; i++) {
+        const t = prev + ((time - prev) * i) / steps;
+        param.linearRampToValueAtTime(map(getAutomationValueAt(points, t)), at(t));
+      }
+    }
+    param.linearRampToValueAtTime(map(getAutomationValueAt(points, time)), at(time));
+    prev = time;
+  }
+}
@@ -0,0 +1,343 @@
+import type {
+  AutomationPoint,
+  TrackEffect,
+  EqEffect,
+  CompressorEffect,
+  SidechainCompressorEffect,
+  SaturationEffect,
+} from '../types/project';
+import { dbToGain } from '../utils/db';
+import { scheduleAutomation, type AutomatableParam } from './automation';
+import { areWorkletsLoaded } from './worklets';
+import { SIDECHAIN_COMPRESSOR_PROCESSOR } from './worklets/processorNames';
+
+/**
+ * A single insert effect in a track's chain. Works on any BaseAudioContext so
+ * the same nodes are built for live playback and offline export.
+ */
+export interface EffectNode {
+  readonly effectId: string;
+  readonly input: AudioNode;
+  readonly output: AudioNode;
+  update(effect: TrackEffect): void;
+  /** Automate one parameter (see constants/automation) over timeline `from`..`to`. */
+  automate(param: string, points: AutomationPoint[], from: number, to: number, contextStart: number): void;
+  /** Drop all automation and return to the static parameter values. */
+  clearAutomation(): void;
+  /** Sidechain effects only: connect the key signal (null disconnects it). */
+  setKey?(source: AudioNode | null): void;
+  /** Worklet-based effects: build the processor once the worklets are loaded. */
+  installWorklet?(): void;
+  disconnect(): void;
+}
+
+/**
+ * Shared wiring: input → dry (bypass) → output, input → wet path → output.
+ * Bypass swaps the two gains so it can be toggled without rebuilding the chain.
+ */
+abstract class BaseEffectNode<T extends TrackEffect> implements EffectNode {
+  readonly input: GainNode;
+  readonly output: GainNode;
+  protected readonly wetInput: GainNode;
+  protected readonly wetOutput: GainNode;
+  private readonly dryGain: GainNode;
+  private readonly automated = new Set<AudioParam>();
+  protected lastEffect: T | null = null;
+
+  constructor(protected ctx: BaseAudioContext, readonly effectId: string) {
+    this.input = ctx.createGain();
+    this.output = ctx.createGain();
+    this.dryGain = ctx.createGain();
+    this.wetInput = ctx.createGain();
+    this.wetOutput = ctx.createGain();
+
+    this.input.connect(this.dryGain);
+    this.dryGain.connect(this.output);
+    this.input.connect(this.wetInput);
+    this.wetOutput.connect(this.output);
+  }
+
+  update(effect: TrackEffect) {
+    this.dryGain.gain.value = effect.bypassed ? 1 : 0;
+    this.wetInput.gain.value = effect.bypassed ? 0 : 1;
+    this.lastEffect = effect as T;
+    this.applyParams(effect as T);
+  }
+
+  protected abstract applyParams(effect: T): void;
+
+  /** The AudioParams behind an automatable parameter name (empty if unknown). */
+  protected abstract getAutomatableParams(param: string): AutomatableParam[];
+
+  /** Write a static value, unless automation currently owns the param. */
+  protected setParam(param: AudioParam, value: number) {
+    if (!this.automated.has(param)) param.value = value;
+  }
+
+  automate(param: string, points: AutomationPoint[], from: number, to: number, contextStart: number) {
+    for (const target of this.getAutomatableParams(param)) {
+      this.automated.add(target.param);
+      scheduleAutomation(target, points, from, to, contextStart);
+    }
+  }
+
+  clearAutomation() {
+    if (this.automated.size === 0) return;
+    for (const param of this.automated) param.cancelScheduledValues(0);
+    this.automated.clear();
+    if (this.lastEffect) this.applyParams(this.lastEffect);
+  }
+
+  disconnect() {
+    this.input.disconnect();
+    this.output.disconnect();
+    this.dryGain.disconnect();
+    this.wetInput.disconnect();
+    this.wetOutput.disconnect();
+  }
+}
+
+class EqEffectNode extends BaseEffectNode<EqEffect> {
+  private readonly filters: BiquadFilterNode[];
+
+  constructor(ctx: BaseAudioContext, effect: EqEffect) {
+    super(ctx, effect.id);
+    this.filters = effect.bands.map(() => ctx.createBiquadFilter());
+
+    let prev: AudioNode = this.wetInput;
+    for (const filter of this.filters) {
+      prev.connect(filter);
+      prev = filter;
+    }
+    prev.connect(this.wetOutput);
+    this.update(effect);
+  }
+
+  protected applyParams(effect: EqEffect) {
+    effect.bands.forEach((band, i) => {
+      const filter = this.filters[i];
+      if (!filter) return;
+      filter.type = band.type;
+      this.setParam(filter.frequency, band.frequency);
+      this.setParam(filter.gain, band.gain);
+      filter.Q.value = band.q;
+    });
+  }
+
+  protected getAutomatableParams(param: string): AutomatableParam[] {
+    // 'bands.<index>.frequency' | 'bands.<index>.gain'
+    const [, index, name] = param.split('.');
+    const filter = this.filters[Number(index)];
+    if (!filter) return [];
+    if (name === 'frequency') return [{ param: filter.frequency }];
+    if (name === 'gain') return [{ param: filter.gain }];
+    return [];
+  }
+
+  disconnect() {
+    super.disconnect();
+    for (const filter of this.filters) filter.disconnect();
+  }
+}
+
+class CompressorEffectNode extends BaseEffectNode<CompressorEffect> {
+  private readonly compressor: DynamicsCompressorNode;
+  private readonly makeup: GainNode;
+
+  constructor(ctx: BaseAudioContext, effect: CompressorEffect) {
+    super(ctx, effect.id);
+    this.compressor = ctx.createDynamicsCompressor();
+    this.makeup = ctx.createGain();
+    this.wetInput.connect(this.compressor);
+    this.compressor.connect(this.makeup);
+    this.makeup.connect(this.wetOutput);
+    this.update(effect);
+  }
+
+  protected applyParams(effect: CompressorEffect) {
+    this.setParam(this.compressor.threshold, effect.threshold);
+    this.compressor.knee.value = effect.knee;
+    this.setParam(this.compressor.ratio, effect.ratio);
+    this.compressor.attack.value = effect.attack;
+    this.compressor.release.value = effect.release;
+    this.setParam(this.makeup.gain, dbToGain(effect.makeupGain));
+  }
+
+  protected getAutomatableParams(param: string): AutomatableParam[] {
+    switch (param) {
+      case 'threshold': return [{ param: this.compressor.threshold }];
+      case 'ratio': return [{ param: this.compressor.ratio }];
+      case 'makeupGain': return [{ param: this.makeup.gain, map: dbToGain }];
+      default: return [];
+    }
+  }
+
+  disconnect() {
+    super.disconnect();
+    this.compressor.disconnect();
+    this.makeup.disconnect();
+  }
+}
+
+/**
+ * Compressor keyed by another track: wetInput → worklet (input 0) → makeup,
+ * with the key arriving on `keyInput` (worklet input 1). Until the worklet is
+ * registered on the context the wet path passes through unprocessed.
+ */
+class SidechainCompressorEffectNode extends BaseEffectNode<SidechainCompressorEffect> {
+  private readonly keyInput: GainNode;
+  private readonly makeup: GainNode;
+  private compressor: AudioWorkletNode | null = null;
+  private keySource: AudioNode | null = null;
+
+  constructor(ctx: BaseAudioContext, effect: SidechainCompressorEffect) {
+    super(ctx, effect.id);
+    this.keyInput = ctx.createGain();
+    this.makeup = ctx.createGain();
+    this.wetInput.connect(this.makeup);
+    this.makeup.connect(this.wetOutput);
+    this.installWorklet();
+    this.update(effect);
+  }
+
+  installWorklet() {
+    if (this.compressor || !areWorkletsLoaded(this.ctx)) return;
+    this.compressor = new AudioWorkletNode(this.ctx, SIDECHAIN_COMPRESSOR_PROCESSOR, {
+      numberOfInputs: 2,
+      numberOfOutputs: 1,
+      outputChannelCount: [2],
+    });
+    this.wetInput.disconnect(this.makeup);
+    this.wetInput.connect(this.compressor, 0, 0);
+    this.keyInput.connect(this.compressor, 0, 1);
+    this.compressor.connect(this.makeup);
+    if (this.lastEffect) this.applyParams(this.lastEffect);
+  }
+
+  setKey(source: AudioNode | null) {
+    if (source === this.keySource) return;
+    if (this.keySource) {
+      try { this.keySource.disconnect(this.keyInput); } catch { /* source already torn down */ }
+    }
+    source?.connect(this.keyInput);
+    this.keySource = source;
+  }
+
+  protected applyParams(effect: SidechainCompressorEffect) {
+    const params = this.compressor?.parameters;
+    if (params) {
+      this.setParam(params.get('threshold')!, effect.threshold);
+      this.setParam(params.get('ratio')!, effect.ratio);
+      params.get('knee')!.value = effect.knee;
+      params.get('attack')!.value = effect.attack;
+      params.get('release')!.value = effect.release;
+    }
+    this.setParam(this.makeup.gain, dbToGain(effect.makeupGain));
+  }
+
+  protected getAutomatableParams(param: string): AutomatableParam[] {
+    // Threshold and ratio live on the worklet, so they need it installed
+    const params = this.compressor?.parameters;
+    switch (param) {
+      case 'threshold': return params ? [{ param: params.get('threshold')! }] : [];
+      case 'ratio': return params ? [{ param: params.get('ratio')! }] : [];
+      case 'makeupGain': return [{ param: this.makeup.gain, map: dbToGain }];
+      default: return [];
+    }
+  }
+
+  disconnect() {
+    super.disconnect();
+    this.setKey(null);
+    this.keyInput.disconnect();
+    this.compressor?.disconnect();
+    this.makeup.disconnect();
+  }
+}
+
+const SATURATION_CURVE_SIZE = 2048;
+
+class SaturationEffectNode extends BaseEffectNode<SaturationEffect> {
+  private readonly shaper: WaveShaperNode;
+  private readonly shapedGain: GainNode;
+  private readonly cleanGain: GainNode;
+  private _drive: number | null = null;
+
+  constructor(ctx: BaseAudioContext, effect: SaturationEffect) {
+    super(ctx, effect.id);
+    this.shaper = ctx.createWaveShaper();
+    this.shaper.oversample = '4x';
+    this.shapedGain = ctx.createGain();
+    this.cleanGain = ctx.createGain();
+
+    this.wetInput.connect(this.shaper);
+    this.shaper.connect(this.shapedGain);
+    this.shapedGain.connect(this.wetOutput);
+    this.wetInput.connect(this.cleanGain);
+    this.cleanGain.connect(this.wetOutput);
+    this.update(effect);
+  }
+
+  protected applyParams(effect: SaturationEffect) {
+    if (effect.drive !== this._drive) {
+      this._drive = effect.drive;
+      this.shaper.curve = makeSaturationCurve(dbToGain(effect.drive));
+    }
+    const mix = Math.max(0, Math.min(1, effect.mix));
+    this.setParam(this.shapedGain.gain, mix);
+    this.setParam(this.cleanGain.gain, 1 - mix);
+    this.setParam(this.wetOutput.gain, dbToGain(effect.outputGain));
+  }
+
+  protected getAutomatableParams(param: string): AutomatableParam[] {
+    switch (param) {
+      case 'mix': return [
+        { param: this.shapedGain.gain },
+        { param: this.cleanGain.gain, map: (v) => 1 - v },
+      ];
+      case 'outputGain': return [{ param: this.wetOutput.gain, map: dbToGain }];
+      default: return [];
+    }
+  }
+
+  disconnect() {
+    super.disconnect();
+    this.shaper.disconnect();
+    this.shapedGain.disconnect();
+    this.cleanGain.disconnect();
+  }
+}
+
+/** tanh soft-clip normalized so full scale still maps to full scale. */
+function makeSaturationCurve(drive: number): Float32Array<ArrayBuffer> {
+  const curve = new Float32Array(SATURATION_CURVE_SIZE);
+  const norm = Math.tanh(drive);
+  for (let i = 0; i < SATURATION_CURVE_SIZE; i++) {
+    const x = (i / (SATURATION_CURVE_SIZE - 1)) * 2 - 1;
+    curve[i] = Math.tanh(drive * x) / norm;
+  }
+  return curve;
+}
+
+export function createEffectNode(ctx: BaseAudioContext, effect: TrackEffect): EffectNode {
+  switch (effect.type) {
+    case 'eq':
+      return new EqEffectNode(ctx, effect);
+    case 'compressor':
+      return new CompressorEffectNode(ctx, effect);
+    case 'sidechain':
+      return new SidechainCompressorEffectNode(ctx, effect);
+    case 'saturation':
+      return new SaturationEffectNode(ctx, effect);
+  }
+}
+
+/**
+ * Identifies the node layout of an effect chain. Parameter changes keep the
+ * key stable (nodes are updated in place); add/remove/reorder changes it.
+ */
+export function getEffectChainKey(effects: TrackEffect[]): string {
+  return effects
+    .map((e) => `${e.id}:${e.type}${e.type === 'eq' ? `:${e.bands.length}` : ''}`)
+    .join('|');
+}
@@ -1,25 +1,255 @@
+import type { Project, Track, MasterSettings } from '../types/project';
+import { DEFAULT_MASTER } from '../constants/effects';
+import {
+  DEFAULT_EXPORT_FORMAT,
+  MP3_MAX_SAMPLE_RATE,
+  type ExportFormat,
+  type AudioMetadata,
+} from '../constants/export';
 import { audioBufferToWavBlob } from '../utils/wav';
+import { createZipBlob, type ZipEntry } from '../utils/zip';
+import { encodeAudioBuffer } from '../services/audioEncoder';
+import { dbToGain } from '../utils/db';
+import { MixGraph, type ClipScheduleInfo } from './MixGraph';
+import { loadWorklets } from './worklets';
+import { measureLoudness, type LoudnessReport } from './loudness';
+import { isGroupTrack, isTrackAudible, getTrackAncestors, getTrackDescendants } from '../utils/trackTree';
 
-export async function exportMixToWav(
-  clips: Array<{ startTime: number; buffer: AudioBuffer; volume: number }>,
-  totalDuration: number,
+export type { LoudnessReport } from './loudness';
+
+/**
+ * Encode a render in the chosen format. Dither only applies to 16-bit —
+ * 24-bit's noise floor is already below the analog chain, float needs none.
+ * FLAC and MP3 are encoded in a worker so the UI stays responsive.
+ */
+export function encodeRender(buffer: AudioBuffer, format: ExportFormat, metadata: AudioMetadata): Promise<Blob> {
+  const bitDepth = format.fileType === 'mp3' ? 16 : format.bitDepth;
+  const dither = bitDepth === 16 ? format.dither : 'none';
+
+  if (format.fileType === 'wav') {
+    return Promise.resolve(audioBufferToWavBlob(buffer, { bitDepth, dither }));
+  }
+  return encodeAudioBuffer(buffer, {
+    fileType: format.fileType,
+    bitDepth: bitDepth === 32 ? 24 : bitDepth,
+    dither,
+    mp3Bitrate: format.mp3Bitrate,
+    metadata,
+  });
+}
+
+/** The rate to actually render at — MP3 can't go above 48 kHz. */
+export function getRenderSampleRate(format: ExportFormat): number {
+  return format.fileType === 'mp3' ? Math.min(format.sampleRate, MP3_MAX_SAMPLE_RATE) : format.sampleRate;
+}
+
+export function getProjectMetadata(project: Project, title: string = project.name): AudioMetadata {
+  return { title, bpm: project.bpm, keyScale: project.keyScale };
+}
+
+/** Timeline span to render: clips are cut at `end`, then `tail` seconds let effects ring out. */
+export interface RenderRange {
+  start: number;
+  end: number;
+  tail: number;
+}
+
+/** The whole timeline, 0 → project.totalDuration. */
+export function getFullRange(project: Project): RenderRange {
+  return { start: 0, end: project.totalDuration, tail: 0 };
+}
+
+/** The clips on tracks the mix lets through — muted and solo-silenced tracks drop out. */
+export function getAudibleClips<T extends Pick<ClipScheduleInfo, 'trackId'>>(project: Project, clips: T[]): T[] {
+  const audible = new Set(project.tracks.filter((t) => isTrackAudible(project.tracks, t)).map((t) => t.id));
+  return clips.filter((c) => audible.has(c.trackId));
+}
+
+/** First clip start → last clip end, or null if there are no clips. */
+export function getContentRange(
+  clips: Array<Pick<ClipScheduleInfo, 'startTime' | 'clipDuration'>>,
+  tail: number = 0,
+): RenderRange | null {
+  if (clips.length === 0) return null;
+  const start = Math.min(...clips.map((c) => c.startTime));
+  const end = Math.max(...clips.map((c) => c.startTime + c.clipDuration));
+  return { start, end, tail };
+}
+
+/**
+ * Offline render of the project through the same MixGraph playback uses —
+ * crops, automation, mute/solo, inserts, sends, returns and the master bus all apply.
+ * Rendering at a rate other than the clips' own resamples them in the graph.
+ */
+export async function renderMix(
+  project: Project,
+  clips: ClipScheduleInfo[],
+  range: RenderRange,
   sampleRate: number = 48000,
-): Promise<Blob> {
-  const length = Math.ceil(totalDuration * sampleRate);
+): Promise<AudioBuffer> {
+  const length = Math.max(1, Math.ceil((range.end - range.start + range.tail) * sampleRate));
   const offlineCtx = new OfflineAudioContext(2, length, sampleRate);
 
-  for (const clip of clips) {
-    const source = offlineCtx.createBufferSource();
-    source.buffer = clip.buffer;
+  // The master limiter is a worklet — register it before building the graph
+  await loadWorklets(offlineCtx);
+  const graph = new MixGraph(offlineCtx);
+  graph.sync(project);
+  graph.scheduleClips(clips, range.start, 0, range.end);
+  graph.scheduleAutomation(range.start, 0, range.end);
+
+  return offlineCtx.startRendering();
+}
+
+/** Render the mix and report its loudness — the export dialog's pre-flight check. */
+export async function analyzeMix(
+  project: Project,
+  clips: ClipScheduleInfo[],
+  range: RenderRange,
+  sampleRate: number = 48000,
+): Promise<LoudnessReport> {
+  const rendered = await renderMix(project, clips, range, sampleRate);
+  return measureLoudness(rendered);
+}
+
+const NORMALIZE_TOLERANCE_LU = 0.2;
+const NORMALIZE_MAX_PASSES = 3;
+
+/**
+ * Render with the master fader trimmed so integrated loudness lands on
+ * `targetLufs`. The trim sits before the limiter, so the true-peak ceiling
+ * still holds; when the limiter is working hard a second pass corrects for
+ * the loudness it takes away.
+ */
+export async function renderNormalizedMix(
+  project: Project,
+  clips: ClipScheduleInfo[],
+  range: RenderRange,
+  sampleRate: number,
+  targetLufs: number,
+): Promise<{ buffer: AudioBuffer; report: LoudnessReport; gainDb: number }> {
+  const master = project.master ?? DEFAULT_MASTER;
+  let gainDb = 0;
+  let buffer = await renderMix(project, clips, range, sampleRate);
+  let report = measureLoudness(buffer);
+
+  for (let pass = 1; pass < NORMALIZE_MAX_PASSES; pass++) {
+    // Silence can't be normalized
+    if (!Number.isFinite(report.integrated)) break;
+    const error = targetLufs - report.integrated;
+    if (Math.abs(error) <= NORMALIZE_TOLERANCE_LU) break;
+
+    gainDb += error;
+    const trimmed: Project = { ...project, master: { ...master, volume: master.volume * dbToGain(gainDb) } };
+    buffer = await renderMix(trimmed, clips, range, sampleRate);
+    report = measureLoudness(buffer);
+  }
+  return { buffer, report, gainDb };
+}
+
+export async function exportMixToFile(
+  project: Project,
+  clips: ClipScheduleInfo[],
+  range: RenderRange,
+  format: ExportFormat = DEFAULT_EXPORT_FORMAT,
+  targetLufs: number | null = null,
+): Promise<Blob> {
+  const sampleRate = getRenderSampleRate(format);
+  const rendered = targetLufs === null
+    ? await renderMix(project, clips, range, sampleRate)
+    : (await renderNormalizedMix(project, clips, range, sampleRate, targetLufs)).buffer;
+  return encodeRender(rendered, format, getProjectMetadata(project));
+}
+
+/**
+ * The tracks a stem of `track` is rendered with: the track and its groups
+ * (audible), plus whatever keys their sidechain compressors. Key tracks are
+ * muted with their sends cleared — the sidechain is tapped before the mute,
+ * so they still drive the ducking without being heard.
+ */
+function getStemTracks(project: Project, track: Track): Track[] {
+  const audible = [track, ...getTrackAncestors(project.tracks, track)];
+  const included = new Map(audible.map((t) => [t.id, { ...t, muted: false, soloed: false }]));
 
-    const gain = offlineCtx.createGain();
-    gain.gain.value = clip.volume;
+  const pending = [...audible];
+  while (pending.length > 0) {
+    const current = pending.pop()!;
+    for (const effect of current.effects ?? []) {
+      if (effect.type !== 'sidechain' || !effect.keyTrackId || included.has(effect.keyTrackId)) continue;
+      const key = project.tracks.find((t) => t.id === effect.keyTrackId);
+      if (!key) continue;
+      // A group key needs its members playing into it
+      for (const t of [key, ...getTrackDescendants(project.tracks, key.id)]) {
+        if (included.has(t.id)) continue;
+        included.set(t.id, { ...t, muted: t.id === key.id, soloed: false, sends: [] });
+        pending.push(t);
+      }
+    }
+  }
+  return [...included.values()];
+}
+
+export interface RenderedStem {
+  track: Track;
+  buffer: AudioBuffer;
+}
+
+/**
+ * Render each track on its own: its inserts, pan/width, fader and its sends
+ * into the returns (so its reverb/delay tails travel with it), then through
+ * the group tracks it is nested in. Sidechain keys still duck it (see
+ * getStemTracks). Groups get no stem of their own, and tracks the mix
+ * doesn't let through (muted or silenced by a solo) get none at all. The master
+ * glue and limiter are bypassed so the stems sum back to the pre-master mix.
+ * Every stem starts at the range start and has the same length.
+ */
+export async function renderStems(
+  project: Project,
+  clips: ClipScheduleInfo[],
+  range: RenderRange,
+  sampleRate: number = 48000,
+): Promise<RenderedStem[]> {
+  const master = project.master ?? DEFAULT_MASTER;
+  const stemMaster: MasterSettings = {
+    ...master,
+    glue: { ...master.glue, enabled: false },
+    limiter: { ...master.limiter, enabled: false },
+  };
 
-    source.connect(gain);
-    gain.connect(offlineCtx.destination);
-    source.start(clip.startTime);
+  const stems: RenderedStem[] = [];
+  const sortedTracks = [...project.tracks].sort((a, b) => a.order - b.order);
+  for (const track of sortedTracks) {
+    if (isGroupTrack(track) || !isTrackAudible(project.tracks, track)) continue;
+    const stemTracks = getStemTracks(project, track);
+    const stemProject: Project = { ...project, master: stemMaster, tracks: stemTracks };
+    const trackClips = clips.filter((c) => stemTracks.some((t) => t.id === c.trackId));
+    const buffer = await renderMix(stemProject, trackClips, range, sampleRate);
+    stems.push({ track, buffer });
   }
+  return stems;
+}
+
+/** "01 - Lead Vocal (vocals).wav" — order, display name, stem type. */
+export function getStemFileName(track: Track, index: number, extension: string): string {
+  const number = String(index + 1).padStart(2, '0');
+  const name = track.displayName.replace(/[\\/:*?"<>|]/g, '_').trim() || 'Track';
+  return `${number} - ${name} (${track.trackName}).${extension}`;
+}
 
-  const rendered = await offlineCtx.startRendering();
-  return audioBufferToWavBlob(rendered);
+export async function exportStemsToZip(
+  project: Project,
+  clips: ClipScheduleInfo[],
+  range: RenderRange,
+  format: ExportFormat = DEFAULT_EXPORT_FORMAT,
+): Promise<Blob> {
+  const stems = await renderStems(project, clips, range, getRenderSampleRate(format));
+  const entries: ZipEntry[] = [];
+  for (const [i, stem] of stems.entries()) {
+    const metadata = getProjectMetadata(project, `${project.name} - ${stem.track.displayName}`);
+    const file = await encodeRender(stem.buffer, format, metadata);
+    entries.push({
+      name: getStemFileName(stem.track, i, format.fileType),
+      data: new Uint8Array(await file.arrayBuffer()),
+    });
+  }
+  return createZipBlob(entries);
 }
@@ -0,0 +1,131 @@
+import type { FadeCurve } from '../types/project';
+
+export interface ClipFades {
+  fadeIn: number;
+  fadeOut: number;
+  fadeInCurve: FadeCurve;
+  fadeOutCurve: FadeCurve;
+}
+
+/** Fade-in gain at position `x` (0..1) through the fade. Fade-outs use `1 - x`. */
+export function fadeCurveValue(x: number, curve: FadeCurve): number {
+  const t = Math.max(0, Math.min(1, x));
+  switch (curve) {
+    case 'exponential': return t * t * t;
+    case 'equal-power': return Math.sin((t * Math.PI) / 2);
+    case 's-curve': return (1 - Math.cos(t * Math.PI)) / 2;
+    default: return t;
+  }
+}
+
+/** Clamp fade lengths so the two fades never overlap inside the clip. */
+export function clampFades(fadeIn: number, fadeOut: number, duration: number): [number, number] {
+  const fin = Math.max(0, fadeIn);
+  const fout = Math.max(0, fadeOut);
+  if (fin + fout <= duration) return [fin, fout];
+  const scale = duration / (fin + fout);
+  return [fin * scale, fout * scale];
+}
+
+const CURVE_POINTS_PER_SECOND = 500;
+const MAX_CURVE_POINTS = 4096;
+
+function sampleCurve(from: number, to: number, gainAt: (t: number) => number): Float32Array {
+  const points = Math.max(2, Math.min(MAX_CURVE_POINTS, Math.ceil((to - from) * CURVE_POINTS_PER_SECOND)));
+  const curve = new Float32Array(points);
+  for (let i = 0; i < points; i++) curve[i] = gainAt(from + ((to - from) * i) / (points - 1));
+  return curve;
+}
+
+/**
+ * Automate `param` with a clip's fade envelope for the part of the clip that
+ * plays between timeline `from` and `to`, with `from` landing on context time
+ * `contextStart`. Seeking into the middle of a fade starts partway along it.
+ * The envelope is scaled by `level` (clip gain; negative inverts polarity).
+ */
+export function scheduleClipFades(
+  param: AudioParam,
+  fades: ClipFades,
+  clipStart: number,
+  clipEnd: number,
+  from: number,
+  to: number,
+  contextStart: number,
+  level: number = 1,
+) {
+  const at = (t: number) => contextStart + (t - from);
+  const inEnd = clipStart + fades.fadeIn;
+  const outStart = clipEnd - fades.fadeOut;
+  const fadeInAt = (t: number) => level * fadeCurveValue((t - clipStart) / fades.fadeIn, fades.fadeInCurve);
+  const fadeOutAt = (t: number) => level * fadeCurveValue((clipEnd - t) / fades.fadeOut, fades.fadeOutCurve);
+
+  let startsWithCurve = false;
+  let fadeInEnd = from;
+
+  if (fades.fadeIn > 0 && from < inEnd) {
+    const segEnd = Math.min(inEnd, to);
+    if (segEnd > from) {
+      param.setValueCurveAtTime(sampleCurve(from, segEnd, fadeInAt), at(from), segEnd - from);
+      startsWithCurve = true;
+      fadeInEnd = segEnd;
+    }
+  }
+
+  if (fades.fadeOut > 0 && to > outStart) {
+    // Rounding can put the fade-out start a hair inside the fade-in curve
+    const segStart = Math.max(from, outStart, fadeInEnd);
+    const segEnd = Math.min(clipEnd, to);
+    if (segEnd > segStart) {
+      param.setValueCurveAtTime(sampleCurve(segStart, segEnd, fadeOutAt), at(segStart), segEnd - segStart);
+      if (segStart === from) startsWithCurve = true;
+    }
+  }
+
+  // Curves can't share a start time with another event
+  if (!startsWithCurve) param.setValueAtTime(level, at(from));
+}
+
+interface FadeableClip extends ClipFades {
+  trackId: string;
+  startTime: number;
+  clipDuration: number;
+}
+
+/**
+ * Where two clips on the same track overlap, stretch the outgoing clip's
+ * fade-out and the incoming clip's fade-in over the overlap with equal-power
+ * curves — unless the user's own fades are already longer.
+ */
+export function applyCrossfades<T extends FadeableClip>(clips: T[]): T[] {
+  const byTrack = new Map<string, T[]>();
+  for (const clip of clips) {
+    const list = byTrack.get(clip.trackId) ?? [];
+    list.push(clip);
+    byTrack.set(clip.trackId, list);
+  }
+
+  for (const list of byTrack.values()) {
+    list.sort((a, b) => a.startTime - b.startTime);
+    for (let i = 1; i < list.length; i++) {
+      const incoming = list[i];
+      const outgoing = list[i - 1];
+      const outgoingEnd = outgoing.startTime + outgoing.clipDuration;
+      const overlap = outgoingEnd - incoming.startTime;
+      // A clip nested entirely inside another isn't a crossfade
+      if (overlap <= 0 || incoming.startTime + incoming.clipDuration <= outgoingEnd) continue;
+
+      if (outgoing.fadeOut < overlap) {
+        outgoing.fadeOut = overlap;
+        outgoing.fadeOutCurve = 'equal-power';
+      }
+      if (incoming.fadeIn < overlap) {
+        incoming.fadeIn = overlap;
+        incoming.fadeInCurve = 'equal-power';
+      }
+    }
+    for (const clip of list) {
+      [clip.fadeIn, clip.fadeOut] = clampFades(clip.fadeIn, clip.fadeOut, clip.clipDuration);
+    }
+  }
+  return clips;
+}
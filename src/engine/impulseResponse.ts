@@ -0,0 +1,42 @@
+/**
+ * Algorithmic reverb impulse response: decorrelated stereo noise under an
+ * exponential envelope that reaches -60 dB at `decay` seconds.
+ *
+ * Noise comes from a seeded PRNG so every context (live and offline export)
+ * builds an identical IR for the same settings.
+ */
+export function generateImpulseResponse(
+  ctx: BaseAudioContext,
+  decay: number,
+  seed: number = 0x5eed,
+): AudioBuffer {
+  const sampleRate = ctx.sampleRate;
+  const length = Math.max(1, Math.ceil(decay * sampleRate));
+  const ir = ctx.createBuffer(2, length, sampleRate);
+  const fadeIn = Math.min(length, Math.floor(0.005 * sampleRate)); // soften the onset
+
+  for (let ch = 0; ch < 2; ch++) {
+    const data = ir.getChannelData(ch);
+    const random = mulberry32(seed + ch * 7919);
+    for (let i = 0; i < length; i++) {
+      const t = i / sampleRate;
+      // ln(1000) ≈ 6.908 → -60 dB at t = decay
+      let env = Math.exp((-6.908 * t) / decay);
+      if (i < fadeIn) env *= i / fadeIn;
+      data[i] = (random() * 2 - 1) * env;
+    }
+  }
+
+  return ir;
+}
+
+function mulberry32(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
@@ -0,0 +1,129 @@
+import { TruePeakDetector } from './truePeak';
+
+/**
+ * ITU-R BS.1770-4 loudness measurement over a rendered buffer:
+ * K-weighting, 400 ms gated blocks for integrated loudness, 3 s windows for
+ * short-term, and 4× oversampled true peak.
+ */
+export interface LoudnessReport {
+  /** Integrated loudness in LUFS (−Infinity for silence). */
+  integrated: number;
+  /** Maximum short-term (3 s) loudness in LUFS. */
+  shortTermMax: number;
+  /** Maximum true peak in dBTP. */
+  truePeak: number;
+}
+
+const BLOCK_SECONDS = 0.4;
+const SHORT_TERM_SECONDS = 3;
+const STEP_SECONDS = 0.1;
+const ABSOLUTE_GATE = -70;
+const RELATIVE_GATE = -10;
+
+interface Biquad {
+  b0: number; b1: number; b2: number;
+  a1: number; a2: number;
+}
+
+/** K-weighting pre-filter (high shelf) and RLB high-pass for any sample rate. */
+function kWeightingFilters(sampleRate: number): [Biquad, Biquad] {
+  let K = Math.tan((Math.PI * 1681.974450955533) / sampleRate);
+  const Q1 = 0.7071752369554196;
+  const Vh = Math.pow(10, 3.999843853973347 / 20);
+  const Vb = Math.pow(Vh, 0.4996667741545416);
+  let a0 = 1 + K / Q1 + K * K;
+  const shelf: Biquad = {
+    b0: (Vh + (Vb * K) / Q1 + K * K) / a0,
+    b1: (2 * (K * K - Vh)) / a0,
+    b2: (Vh - (Vb * K) / Q1 + K * K) / a0,
+    a1: (2 * (K * K - 1)) / a0,
+    a2: (1 - K / Q1 + K * K) / a0,
+  };
+
+  K = Math.tan((Math.PI * 38.13547087602444) / sampleRate);
+  const Q2 = 0.5003270373238773;
+  a0 = 1 + K / Q2 + K * K;
+  const highpass: Biquad = {
+    b0: 1, b1: -2, b2: 1,
+    a1: (2 * (K * K - 1)) / a0,
+    a2: (1 - K / Q2 + K * K) / a0,
+  };
+  return [shelf, highpass];
+}
+
+function applyBiquad(input: Float32Array, f: Biquad): Float32Array {
+  const output = new Float32Array(input.length);
+  let x1 = 0, x2 = 0, y1 = 0, y2 = 0;
+  for (let i = 0; i < input.length; i++) {
+    const x = input[i];
+    const y = f.b0 * x + f.b1 * x1 + f.b2 * x2 - f.a1 * y1 - f.a2 * y2;
+    x2 = x1; x1 = x;
+    y2 = y1; y1 = y;
+    output[i] = y;
+  }
+  return output;
+}
+
+const toLufs = (meanSquare: number) => -0.691 + 10 * Math.log10(meanSquare);
+
+/**
+ * Mean square of the summed K-weighted channels for each window of
+ * `windowSeconds`, stepped by 100 ms. Stereo channels have weight 1.
+ */
+function windowPowers(weighted: Float32Array[], sampleRate: number, windowSeconds: number): number[] {
+  const length = weighted[0]?.length ?? 0;
+  const window = Math.round(windowSeconds * sampleRate);
+  const step = Math.round(STEP_SECONDS * sampleRate);
+
+  // Prefix sums of squared samples make every window O(1)
+  const prefix = new Float64Array(length + 1);
+  for (let i = 0; i < length; i++) {
+    let sq = 0;
+    for (const ch of weighted) sq += ch[i] * ch[i];
+    prefix[i + 1] = prefix[i] + sq;
+  }
+
+  const powers: number[] = [];
+  for (let start = 0; start + window <= length; start += step) {
+    powers.push((prefix[start + window] - prefix[start]) / window);
+  }
+  return powers;
+}
+
+export function measureLoudness(buffer: AudioBuffer): LoudnessReport {
+  const [shelf, highpass] = kWeightingFilters(buffer.sampleRate);
+  const channels: Float32Array[] = [];
+  for (let ch = 0; ch < buffer.numberOfChannels; ch++) channels.push(buffer.getChannelData(ch));
+
+  const weighted = channels.map((ch) => applyBiquad(applyBiquad(ch, shelf), highpass));
+
+  // Integrated: absolute gate at −70 LUFS, then relative gate 10 LU below that mean
+  const blocks = windowPowers(weighted, buffer.sampleRate, BLOCK_SECONDS);
+  const aboveAbsolute = blocks.filter((p) => toLufs(p) > ABSOLUTE_GATE);
+  let integrated = -Infinity;
+  if (aboveAbsolute.length > 0) {
+    const mean = aboveAbsolute.reduce((sum, p) => sum + p, 0) / aboveAbsolute.length;
+    const relativeGate = toLufs(mean) + RELATIVE_GATE;
+    const gated = aboveAbsolute.filter((p) => toLufs(p) > relativeGate);
+    if (gated.length > 0) integrated = toLufs(gated.reduce((sum, p) => sum + p, 0) / gated.length);
+  }
+
+  const shortTerm = windowPowers(weighted, buffer.sampleRate, SHORT_TERM_SECONDS);
+  const shortTermMax = shortTerm.length > 0 ? toLufs(Math.max(...shortTerm)) : -Infinity;
+
+  let peak = 0;
+  for (const ch of channels) {
+    const detector = new TruePeakDetector();
+    for (let i = 0; i < ch.length; i++) {
+      const p = detector.process(ch[i]);
+      if (p > peak) peak = p;
+    }
+    // Flush the interpolator so the last samples are covered too
+    for (let i = 0; i < 12; i++) {
+      const p = detector.process(0);
+      if (p > peak) peak = p;
+    }
+  }
+
+  return { integrated, shortTermMax, truePeak: 20 * Math.log10(peak) };
+}
@@ -0,0 +1,63 @@
+/**
+ * 4× oversampling true-peak detector (ITU-R BS.1770 style).
+ *
+ * A 49-tap windowed-sinc interpolator split into four polyphase branches.
+ * Phase 0 reproduces the input sample exactly; phases 1–3 reconstruct the
+ * signal at quarter-sample positions, so the detector reports the highest
+ * inter-sample peak between x[n−6] and x[n−5] (6 samples of latency).
+ */
+const OVERSAMPLE = 4;
+const TAPS = 49;
+const CENTER = (TAPS - 1) / 2;
+export const TRUE_PEAK_LATENCY = CENTER / OVERSAMPLE;
+const HISTORY = Math.ceil(TAPS / OVERSAMPLE);
+
+const PHASES: Float32Array[] = buildPhases();
+
+function buildPhases(): Float32Array[] {
+  const phases: Float32Array[] = [];
+  for (let p = 0; p < OVERSAMPLE; p++) {
+    const coeffs = new Float32Array(HISTORY);
+    let sum = 0;
+    for (let k = 0; k < HISTORY; k++) {
+      const m = p + k * OVERSAMPLE;
+      if (m >= TAPS) continue;
+      const x = (m - CENTER) / OVERSAMPLE;
+      const sinc = x === 0 ? 1 : Math.sin(Math.PI * x) / (Math.PI * x);
+      const window = 0.5 - 0.5 * Math.cos((2 * Math.PI * m) / (TAPS - 1));
+      coeffs[k] = sinc * window;
+      sum += coeffs[k];
+    }
+    for (let k = 0; k < HISTORY; k++) coeffs[k] /= sum;
+    phases.push(coeffs);
+  }
+  return phases;
+}
+
+export class TruePeakDetector {
+  private history = new Float32Array(HISTORY);
+  private pos = 0;
+
+  /** Push one sample; returns the absolute true peak of the interpolated segment. */
+  process(sample: number): number {
+    this.pos = (this.pos + HISTORY - 1) % HISTORY;
+    this.history[this.pos] = sample;
+
+    let peak = 0;
+    for (let p = 0; p < OVERSAMPLE; p++) {
+      const coeffs = PHASES[p];
+      let y = 0;
+      for (let k = 0; k < HISTORY; k++) {
+        y += coeffs[k] * this.history[(this.pos + k) % HISTORY];
+      }
+      const abs = Math.abs(y);
+      if (abs > peak) peak = abs;
+    }
+    return peak;
+  }
+
+  reset() {
+    this.history.fill(0);
+    this.pos = 0;
+  }
+}
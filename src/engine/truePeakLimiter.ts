@@ -0,0 +1,15 @@
+import { TRUE_PEAK_LATENCY } from './truePeak';
+
+// Shared between the limiter processor and the master bus, which delays its
+// bypass path to match
+const LOOKAHEAD_SECONDS = 0.002;
+
+/** Samples in the true-peak limiter's lookahead window. */
+export function getLimiterWindow(sampleRate: number): number {
+  return Math.max(8, Math.round(LOOKAHEAD_SECONDS * sampleRate));
+}
+
+/** Samples the limiter delays its audio by. A requirement seen at detector time n covers samples n−6 and n−5. */
+export function getLimiterLatency(sampleRate: number): number {
+  return getLimiterWindow(sampleRate) + TRUE_PEAK_LATENCY - 2;
+}
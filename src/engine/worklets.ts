@@ -0,0 +1,29 @@
+import truePeakLimiterUrl from './worklets/truePeakLimiter.processor?worker&url';
+import levelMeterUrl from './worklets/levelMeter.processor?worker&url';
+import sidechainCompressorUrl from './worklets/sidechainCompressor.processor?worker&url';
+
+const loading = new WeakMap<BaseAudioContext, Promise<void>>();
+const loaded = new WeakSet<BaseAudioContext>();
+
+/**
+ * Register the engine's AudioWorklet processors on a context (live or offline).
+ * Safe to call repeatedly; the modules are only added once per context.
+ */
+export function loadWorklets(ctx: BaseAudioContext): Promise<void> {
+  let promise = loading.get(ctx);
+  if (!promise) {
+    promise = Promise.all([
+      ctx.audioWorklet.addModule(truePeakLimiterUrl),
+      ctx.audioWorklet.addModule(levelMeterUrl),
+      ctx.audioWorklet.addModule(sidechainCompressorUrl),
+    ]).then(() => {
+      loaded.add(ctx);
+    });
+    loading.set(ctx, promise);
+  }
+  return promise;
+}
+
+export function areWorkletsLoaded(ctx: BaseAudioContext): boolean {
+  return loaded.has(ctx);
+}
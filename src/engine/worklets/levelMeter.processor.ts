@@ -0,0 +1,66 @@
+import { LEVEL_METER_PROCESSOR } from './processorNames';
+
+// AudioWorkletGlobalScope is not part of the DOM lib
+declare const sampleRate: number;
+declare function registerProcessor(name: string, processorCtor: unknown): void;
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+}
+
+/** Posts this many reports per second — enough for smooth display. */
+const REPORTS_PER_SECOND = 30;
+
+/** Posted to the main thread (see MeterLevels): linear sample peak and RMS per channel. */
+interface LevelMeterReport {
+  peak: [number, number];
+  rms: [number, number];
+}
+
+/**
+ * Metering tap (no outputs): accumulates per-channel sample peak and mean
+ * square over ~33 ms windows and posts them to the main thread.
+ */
+class LevelMeterProcessor extends AudioWorkletProcessor {
+  private readonly windowFrames = Math.round(sampleRate / REPORTS_PER_SECOND);
+  private frames = 0;
+  private peak: [number, number] = [0, 0];
+  private sumSquares: [number, number] = [0, 0];
+
+  process(inputs: Float32Array[][]): boolean {
+    const input = inputs[0];
+    // Unconnected input: report silence at the same rate
+    const left = input[0];
+    const right = input[1] ?? input[0];
+    const length = left?.length ?? 128;
+
+    for (let ch = 0; ch < 2; ch++) {
+      const data = ch === 0 ? left : right;
+      if (!data) continue;
+      let peak = this.peak[ch];
+      let sum = 0;
+      for (let i = 0; i < data.length; i++) {
+        const s = data[i];
+        const a = s < 0 ? -s : s;
+        if (a > peak) peak = a;
+        sum += s * s;
+      }
+      this.peak[ch] = peak;
+      this.sumSquares[ch] += sum;
+    }
+
+    this.frames += length;
+    if (this.frames >= this.windowFrames) {
+      const report: LevelMeterReport = {
+        peak: this.peak,
+        rms: [Math.sqrt(this.sumSquares[0] / this.frames), Math.sqrt(this.sumSquares[1] / this.frames)],
+      };
+      this.port.postMessage(report);
+      this.frames = 0;
+      this.peak = [0, 0];
+      this.sumSquares = [0, 0];
+    }
+    return true;
+  }
+}
+
+registerProcessor(LEVEL_METER_PROCESSOR, LevelMeterProcessor);
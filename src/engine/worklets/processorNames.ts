@@ -0,0 +1,4 @@
+// Shared between the processors (AudioWorkletGlobalScope) and the main thread
+export const TRUE_PEAK_LIMITER_PROCESSOR = 'true-peak-limiter';
+export const LEVEL_METER_PROCESSOR = 'level-meter';
+export const SIDECHAIN_COMPRESSOR_PROCESSOR = 'sidechain-compressor';
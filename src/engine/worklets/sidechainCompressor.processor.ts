@@ -0,0 +1,79 @@
+import { SIDECHAIN_COMPRESSOR_PROCESSOR } from './processorNames';
+
+// AudioWorkletGlobalScope is not part of the DOM lib
+declare const sampleRate: number;
+declare function registerProcessor(name: string, processorCtor: unknown): void;
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+}
+
+const SILENCE_DB = -120;
+
+/**
+ * Feed-forward compressor with an external key: input 0 is the signal that
+ * gets compressed, input 1 the key whose level drives the gain reduction.
+ *
+ * Per sample: stereo-linked key peak → dB → soft-knee gain computer →
+ * attack/release smoothing in dB → gain applied to both program channels.
+ * With nothing connected to the key there is no reduction.
+ */
+class SidechainCompressorProcessor extends AudioWorkletProcessor {
+  static get parameterDescriptors() {
+    return [
+      { name: 'threshold', defaultValue: -24, minValue: -60, maxValue: 0, automationRate: 'k-rate' },
+      { name: 'knee', defaultValue: 6, minValue: 0, maxValue: 24, automationRate: 'k-rate' },
+      { name: 'ratio', defaultValue: 6, minValue: 1, maxValue: 20, automationRate: 'k-rate' },
+      { name: 'attack', defaultValue: 0.005, minValue: 0.0001, maxValue: 1, automationRate: 'k-rate' },
+      { name: 'release', defaultValue: 0.15, minValue: 0.001, maxValue: 2, automationRate: 'k-rate' },
+    ];
+  }
+
+  /** Current gain reduction in dB (≤ 0). */
+  private reductionDb = 0;
+
+  process(
+    inputs: Float32Array[][],
+    outputs: Float32Array[][],
+    parameters: Record<string, Float32Array>,
+  ): boolean {
+    const input = inputs[0];
+    const key = inputs[1];
+    const output = outputs[0];
+    const frames = output[0].length;
+
+    const threshold = parameters.threshold[0];
+    const knee = parameters.knee[0];
+    const slope = 1 / Math.max(1, parameters.ratio[0]) - 1;
+    const attackCoef = Math.exp(-1 / (Math.max(0.0001, parameters.attack[0]) * sampleRate));
+    const releaseCoef = Math.exp(-1 / (Math.max(0.001, parameters.release[0]) * sampleRate));
+
+    const inL = input[0];
+    const inR = input[1] ?? input[0];
+    const keyL = key?.[0];
+    const keyR = key?.[1] ?? keyL;
+    const outL = output[0];
+    const outR = output[1] ?? output[0];
+
+    for (let i = 0; i < frames; i++) {
+      const level = keyL ? Math.max(Math.abs(keyL[i]), Math.abs(keyR![i])) : 0;
+      const levelDb = level > 0 ? Math.max(SILENCE_DB, 20 * Math.log10(level)) : SILENCE_DB;
+
+      const over = levelDb - threshold;
+      let target: number;
+      if (2 * over <= -knee) target = 0;
+      else if (2 * Math.abs(over) < knee) target = (slope * (over + knee / 2) ** 2) / (2 * knee);
+      else target = slope * over;
+
+      // Attack while the reduction deepens, release while it recovers
+      const coef = target < this.reductionDb ? attackCoef : releaseCoef;
+      this.reductionDb = target + coef * (this.reductionDb - target);
+      const gain = Math.pow(10, this.reductionDb / 20);
+
+      outL[i] = inL ? inL[i] * gain : 0;
+      outR[i] = inR ? inR[i] * gain : 0;
+    }
+    return true;
+  }
+}
+
+registerProcessor(SIDECHAIN_COMPRESSOR_PROCESSOR, SidechainCompressorProcessor);
@@ -0,0 +1,112 @@
+import { TruePeakDetector } from '../truePeak';
+import { getLimiterWindow, getLimiterLatency } from '../truePeakLimiter';
+import { TRUE_PEAK_LIMITER_PROCESSOR } from './processorNames';
+
+// AudioWorkletGlobalScope is not part of the DOM lib
+declare const sampleRate: number;
+declare function registerProcessor(name: string, processorCtor: unknown): void;
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+}
+
+/**
+ * Stereo-linked brickwall limiter on true (inter-sample) peaks.
+ *
+ * Per sample: gain requirement = ceiling / truePeak, take the minimum over the
+ * lookahead window, let it recover with the release time, then smooth with a
+ * moving average one sample shorter than the window. The audio is delayed so
+ * the smoothed gain has fully reached every requirement before the peak that
+ * caused it plays — no overshoot, no clicks.
+ */
+class TruePeakLimiterProcessor extends AudioWorkletProcessor {
+  static get parameterDescriptors() {
+    return [
+      { name: 'ceiling', defaultValue: -1, minValue: -24, maxValue: 0, automationRate: 'k-rate' },
+      { name: 'release', defaultValue: 0.1, minValue: 0.001, maxValue: 2, automationRate: 'k-rate' },
+    ];
+  }
+
+  private readonly window: number;
+  private readonly boxLength: number;
+  private readonly delayLength: number;
+  private readonly detectors = [new TruePeakDetector(), new TruePeakDetector()];
+
+  private readonly required: Float32Array;
+  private requiredPos = 0;
+  private readonly box: Float64Array;
+  private boxPos = 0;
+  private boxSum: number;
+  private envelope = 1;
+  private readonly delayed: [Float32Array, Float32Array];
+  private delayPos = 0;
+
+  constructor() {
+    super();
+    this.window = getLimiterWindow(sampleRate);
+    this.boxLength = this.window - 1;
+    this.delayLength = getLimiterLatency(sampleRate);
+
+    this.required = new Float32Array(this.window).fill(1);
+    this.box = new Float64Array(this.boxLength).fill(1);
+    this.boxSum = this.boxLength;
+    this.delayed = [new Float32Array(this.delayLength), new Float32Array(this.delayLength)];
+  }
+
+  process(
+    inputs: Float32Array[][],
+    outputs: Float32Array[][],
+    parameters: Record<string, Float32Array>,
+  ): boolean {
+    const input = inputs[0];
+    const output = outputs[0];
+    const frames = output[0].length;
+
+    const ceiling = Math.pow(10, parameters.ceiling[0] / 20);
+    const releaseCoef = Math.exp(-1 / (Math.max(0.001, parameters.release[0]) * sampleRate));
+
+    const inL = input[0];
+    const inR = input[1] ?? input[0];
+    const outL = output[0];
+    const outR = output[1] ?? output[0];
+
+    for (let i = 0; i < frames; i++) {
+      const l = inL ? inL[i] : 0;
+      const r = inR ? inR[i] : 0;
+
+      const peak = Math.max(this.detectors[0].process(l), this.detectors[1].process(r));
+      this.required[this.requiredPos] = peak > ceiling ? ceiling / peak : 1;
+      this.requiredPos = (this.requiredPos + 1) % this.window;
+
+      let windowMin = 1;
+      for (let k = 0; k < this.window; k++) {
+        if (this.required[k] < windowMin) windowMin = this.required[k];
+      }
+
+      this.envelope = Math.min(windowMin, 1 - (1 - this.envelope) * releaseCoef);
+
+      this.boxSum += this.envelope - this.box[this.boxPos];
+      this.box[this.boxPos] = this.envelope;
+      this.boxPos = (this.boxPos + 1) % this.boxLength;
+      const gain = this.boxSum / this.boxLength;
+
+      const dl = this.delayed[0][this.delayPos];
+      const dr = this.delayed[1][this.delayPos];
+      this.delayed[0][this.delayPos] = l;
+      this.delayed[1][this.delayPos] = r;
+      this.delayPos = (this.delayPos + 1) % this.delayLength;
+
+      // Final sample clamp guards against interpolation error in the detector
+      outL[i] = Math.max(-ceiling, Math.min(ceiling, dl * gain));
+      outR[i] = Math.max(-ceiling, Math.min(ceiling, dr * gain));
+    }
+
+    // Re-sum periodically so floating-point drift can't accumulate
+    let sum = 0;
+    for (let k = 0; k < this.boxLength; k++) sum += this.box[k];
+    this.boxSum = sum;
+
+    return true;
+  }
+}
+
+registerProcessor(TRUE_PEAK_LIMITER_PROCESSOR, TruePeakLimiterProcessor);
@@ -1,7 +1,13 @@
 import { useCallback } from 'react';
 import { useGenerationStore } from '../store/generationStore';
 import { useProjectStore } from '../store/projectStore';
-import { generateAllTracks, generateSingleClip } from '../services/generationPipeline';
+import {
+  generateAllTracks,
+  generateSingleClip,
+  regenerateStaleClips,
+  cancelGenerationJob,
+  cancelAllGeneration,
+} from '../services/generationPipeline';
 
 export function useGeneration() {
   const { jobs, isGenerating } = useGenerationStore();
@@ -17,5 +23,18 @@ export function useGeneration() {
     await generateSingleClip(clipId);
   }, [project, isGenerating]);
 
-  return { jobs, isGenerating, generateAll, generateClip };
+  const regenerateStale = useCallback(async () => {
+    if (!project || isGenerating) return;
+    await regenerateStaleClips();
+  }, [project, isGenerating]);
+
+  return {
+    jobs,
+    isGenerating,
+    generateAll,
+    generateClip,
+    regenerateStale,
+    cancelJob: cancelGenerationJob,
+    cancelAll: cancelAllGeneration,
+  };
 }
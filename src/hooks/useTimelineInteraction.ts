@@ -3,6 +3,7 @@ import { useUIStore } from '../store/uiStore';
 import { useProjectStore } from '../store/projectStore';
 import { useTransportStore } from '../store/transportStore';
 import { snapToGrid } from '../utils/time';
+import { barToTime, getTempoMap, timeToBar } from '../utils/tempoMap';
 
 export function useTimelineInteraction() {
   const pixelsPerSecond = useUIStore((s) => s.pixelsPerSecond);
@@ -24,9 +25,11 @@ export function useTimelineInteraction() {
       if (!project) return;
 
       const rawTime = (clickX + scrollX) / pixelsPerSecond;
-      const snappedTime = snapToGrid(rawTime, project.bpm, 1);
-      const beatDuration = 60 / project.bpm;
-      const defaultDuration = beatDuration * project.timeSignature * 2; // 2 bars
+      const tempo = getTempoMap(project);
+      const snappedTime = snapToGrid(rawTime, tempo, 1);
+      // 2 bars from the bar the clip starts in
+      const startBar = timeToBar(tempo, snappedTime);
+      const defaultDuration = barToTime(tempo, startBar + 2) - barToTime(tempo, startBar);
 
       const clip = addClip(trackId, {
         startTime: Math.max(0, snappedTime),
@@ -2,13 +2,36 @@ import { useCallback, useEffect } from 'react';
 import { useTransportStore } from '../store/transportStore';
 import { useProjectStore } from '../store/projectStore';
 import { getAudioEngine } from './useAudioEngine';
-import { loadAudioBlobByKey } from '../services/audioFileManager';
+import { getAudioBuffer } from '../services/audioBufferCache';
+import { collectClipSchedule } from '../engine/MixGraph';
+import { hasPlayableAudio } from '../utils/clipAudio';
+import type { LoopRegion } from '../engine/AudioEngine';
+import type { Project } from '../types/project';
+
+/**
+ * The region playback should loop, if looping is on: the ruler's loop region,
+ * or — when none has been drawn — from 0 to the end of the last clip with audio.
+ */
+function resolveLoop(project: Project): LoopRegion | null {
+  const { loopEnabled, loopStart, loopEnd } = useTransportStore.getState();
+  if (!loopEnabled) return null;
+  if (loopEnd > loopStart) return { start: loopStart, end: loopEnd };
+
+  let lastClipEnd = 0;
+  for (const track of project.tracks) {
+    for (const clip of track.clips) {
+      if (hasPlayableAudio(clip)) lastClipEnd = Math.max(lastClipEnd, clip.startTime + clip.duration);
+    }
+  }
+  return lastClipEnd > 0 ? { start: 0, end: lastClipEnd } : null;
+}
 
 export function useTransport() {
   const { isPlaying, currentTime } = useTransportStore();
   const project = useProjectStore((s) => s.project);
 
-  const play = useCallback(async (fromTime?: number) => {
+  // Count-in applies when the user starts playback, not when a seek restarts it
+  const play = useCallback(async (fromTime?: number, countIn: boolean = true) => {
     const engine = getAudioEngine();
     await engine.resume();
 
@@ -16,54 +39,12 @@ export function useTransport() {
     if (!proj) return;
 
     // Collect all clips with ready isolated audio
-    const clipBuffers: Array<{
-      clipId: string;
-      trackId: string;
-      startTime: number;
-      buffer: AudioBuffer;
-      audioOffset: number;
-      clipDuration: number;
-    }> = [];
-
-    for (const track of proj.tracks) {
-      for (const clip of track.clips) {
-        if (clip.generationStatus === 'ready' && clip.isolatedAudioKey) {
-          const blob = await loadAudioBlobByKey(clip.isolatedAudioKey);
-          if (blob) {
-            const buffer = await engine.decodeAudioData(blob);
-            clipBuffers.push({
-              clipId: clip.id,
-              trackId: track.id,
-              startTime: clip.startTime,
-              buffer,
-              audioOffset: clip.audioOffset ?? 0,
-              clipDuration: clip.duration,
-            });
-          }
-        }
-      }
-
-      // Update track node state
-      const trackNode = engine.getOrCreateTrackNode(track.id);
-      trackNode.volume = track.volume;
-      trackNode.muted = track.muted;
-      trackNode.soloed = track.soloed;
-    }
-    engine.updateSoloState();
+    const clipBuffers = await collectClipSchedule(proj, getAudioBuffer);
+    engine.syncProject(proj);
 
     const startFrom = fromTime ?? useTransportStore.getState().currentTime;
-
-    // When looping, end at the last clip's endpoint instead of the full timeline
-    const { loopEnabled } = useTransportStore.getState();
-    let effectiveEnd = proj.totalDuration;
-    if (loopEnabled && clipBuffers.length > 0) {
-      const lastClipEnd = clipBuffers.reduce(
-        (max, cb) => Math.max(max, cb.startTime + cb.clipDuration), 0,
-      );
-      if (lastClipEnd > 0) effectiveEnd = lastClipEnd;
-    }
-
-    engine.schedulePlayback(clipBuffers, startFrom, effectiveEnd);
+    const { countInBars } = useTransportStore.getState();
+    engine.schedulePlayback(clipBuffers, startFrom, proj.totalDuration, resolveLoop(proj), countIn ? countInBars : 0);
     useTransportStore.getState().play();
   }, []);
 
@@ -86,42 +67,47 @@ export function useTransport() {
     if (engine.playing) {
       engine.stop();
       useTransportStore.getState().seek(time);
-      play(time);
+      play(time, false);
     } else {
       useTransportStore.getState().seek(time);
     }
   }, [play]);
 
-  // Register the onEnded callback — respect loopEnabled
+  // Looping happens inside the engine; reaching the end always stops
   useEffect(() => {
     const engine = getAudioEngine();
     engine.setOnEndedCallback(() => {
-      const { loopEnabled } = useTransportStore.getState();
-      if (loopEnabled) {
-        useTransportStore.getState().setCurrentTime(0);
-        play(0);
-      } else {
-        useTransportStore.getState().stop();
-      }
+      useTransportStore.getState().stop();
     });
     return () => {
       engine.setOnEndedCallback(() => {});
     };
-  }, [play]);
+  }, []);
+
+  // Follow loop toggles and region edits without restarting playback
+  const loopEnabled = useTransportStore((s) => s.loopEnabled);
+  const loopStart = useTransportStore((s) => s.loopStart);
+  const loopEnd = useTransportStore((s) => s.loopEnd);
+  useEffect(() => {
+    const proj = useProjectStore.getState().project;
+    if (!proj || !isPlaying) return;
+    getAudioEngine().setLoop(resolveLoop(proj));
+  }, [loopEnabled, loopStart, loopEnd, isPlaying]);
 
-  // Sync mute/solo/volume to audio engine TrackNodes during playback
+  // The click is live-only; it follows the transport settings whether or not we're playing
+  const metronomeEnabled = useTransportStore((s) => s.metronomeEnabled);
+  const metronomeVolume = useTransportStore((s) => s.metronomeVolume);
+  useEffect(() => {
+    getAudioEngine().setMetronomeEnabled(metronomeEnabled);
+  }, [metronomeEnabled]);
+  useEffect(() => {
+    getAudioEngine().setMetronomeVolume(metronomeVolume);
+  }, [metronomeVolume]);
+
+  // Sync mixer state (tracks, sends, returns) to the audio engine during playback
   useEffect(() => {
     if (!project || !isPlaying) return;
-    const engine = getAudioEngine();
-    for (const track of project.tracks) {
-      const trackNode = engine.trackNodes.get(track.id);
-      if (trackNode) {
-        trackNode.volume = track.volume;
-        trackNode.muted = track.muted;
-        trackNode.soloed = track.soloed;
-      }
-    }
-    engine.updateSoloState();
+    getAudioEngine().syncProject(project);
   }, [project, isPlaying]);
 
   return { isPlaying, currentTime, play, pause, stop, seek };
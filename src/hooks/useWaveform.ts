@@ -1,6 +1,5 @@
 import { useState, useEffect } from 'react';
-import { getAudioEngine } from './useAudioEngine';
-import { loadAudioBlobByKey } from '../services/audioFileManager';
+import { getAudioBuffer } from '../services/audioBufferCache';
 import { computeWaveformPeaks } from '../utils/waveformPeaks';
 
 export function useWaveform(
@@ -21,12 +20,8 @@ export function useWaveform(
 
     (async () => {
       try {
-        const blob = await loadAudioBlobByKey(audioKey);
-        if (!blob || cancelled) return;
-
-        const engine = getAudioEngine();
-        const buffer = await engine.decodeAudioData(blob);
-        if (cancelled) return;
+        const buffer = await getAudioBuffer(audioKey);
+        if (!buffer || cancelled) return;
 
         const sampleRate = buffer.sampleRate;
         const startSample = Math.floor(startTime * sampleRate);
@@ -10,9 +10,71 @@ import type {
   ModelsListResponse,
   StatsResponse,
 } from '../types/api';
+import { sleep } from '../utils/sleep';
+import { DEFAULT_MAX_RETRIES, DEFAULT_RETRY_BASE_DELAY_MS, MAX_RETRY_DELAY_MS } from '../constants/defaults';
 
 const API_BASE = '/api';
 
+// --- Retry with backoff ---
+
+export interface RetryPolicy {
+  maxRetries: number;
+  /** First retry waits about this long; each further retry doubles it. */
+  baseDelayMs: number;
+}
+
+const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: DEFAULT_MAX_RETRIES,
+  baseDelayMs: DEFAULT_RETRY_BASE_DELAY_MS,
+};
+
+/** Timeouts, rate limiting and server or proxy errors — worth asking again. */
+const isTransientStatus = (status: number) => status === 408 || status === 429 || status >= 500;
+/**
+ * Statuses meaning the server never took the request on, so even a submit is
+ * safe to resend. Not 502: the dev proxy also answers that when the upstream
+ * connection drops after the body went out, by which time the task may be queued.
+ */
+const isRefusedStatus = (status: number) => status === 429 || status === 503;
+
+/**
+ * fetch with exponential backoff (with jitter, honouring Retry-After) on
+ * network errors and transient statuses. Requests that start work on the
+ * server (`idempotent` false) only retry when it refused them outright, so a
+ * slow answer can never queue the same task twice. Aborts are not retried.
+ */
+async function fetchWithRetry(
+  url: string,
+  init: RequestInit = {},
+  policy: RetryPolicy = DEFAULT_RETRY_POLICY,
+  idempotent = true,
+): Promise<Response> {
+  const { maxRetries, baseDelayMs } = policy;
+  for (let attempt = 0; ; attempt++) {
+    const canRetry = attempt < maxRetries;
+    let res: Response;
+    try {
+      res = await fetch(url, init);
+    } catch (error) {
+      if (init.signal?.aborted || !idempotent || !canRetry) throw error;
+      await sleep(backoffDelay(baseDelayMs, attempt, null), init.signal ?? undefined);
+      continue;
+    }
+    const retryable = idempotent ? isTransientStatus(res.status) : isRefusedStatus(res.status);
+    if (!retryable || !canRetry) return res;
+    await sleep(backoffDelay(baseDelayMs, attempt, res.headers.get('retry-after')), init.signal ?? undefined);
+  }
+}
+
+function backoffDelay(baseDelayMs: number, attempt: number, retryAfter: string | null): number {
+  const exponential = baseDelayMs * 2 ** attempt;
+  const hinted = retryAfter ? parseFloat(retryAfter) * 1000 : NaN;
+  const delay = Number.isFinite(hinted)
+    ? Math.max(hinted, exponential)
+    : exponential * (0.5 + Math.random() / 2);
+  return Math.min(MAX_RETRY_DELAY_MS, delay);
+}
+
 // --- API config (stored server-side, accessed via dev endpoint) ---
 
 export async function getApiConfig(): Promise<{ url: string; hasKey: boolean; mode: ApiMode }> {
@@ -45,14 +107,14 @@ export async function healthCheck(): Promise<boolean> {
 }
 
 export async function listModels(): Promise<ModelsListResponse> {
-  const res = await fetch(`${API_BASE}/v1/models`);
+  const res = await fetchWithRetry(`${API_BASE}/v1/models`);
   if (!res.ok) throw new Error(`listModels failed: ${res.status}`);
   const envelope: ApiEnvelope<ModelsListResponse> = await res.json();
   return envelope.data;
 }
 
 export async function getStats(): Promise<StatsResponse> {
-  const res = await fetch(`${API_BASE}/v1/stats`);
+  const res = await fetchWithRetry(`${API_BASE}/v1/stats`);
   if (!res.ok) throw new Error(`getStats failed: ${res.status}`);
   const envelope: ApiEnvelope<StatsResponse> = await res.json();
   return envelope.data;
@@ -61,6 +123,8 @@ export async function getStats(): Promise<StatsResponse> {
 export async function releaseLegoTask(
   srcAudioBlob: Blob,
   params: LegoTaskParams,
+  signal?: AbortSignal,
+  retry?: RetryPolicy,
 ): Promise<ReleaseTaskResponse> {
   const formData = new FormData();
 
@@ -73,10 +137,11 @@ export async function releaseLegoTask(
     formData.append(key, String(value));
   }
 
-  const res = await fetch(`${API_BASE}/release_task`, {
+  const res = await fetchWithRetry(`${API_BASE}/release_task`, {
     method: 'POST',
     body: formData,
-  });
+    signal,
+  }, retry, false);
 
   if (!res.ok) {
     const text = await res.text();
@@ -87,19 +152,42 @@ export async function releaseLegoTask(
   return envelope.data;
 }
 
-export async function queryResult(taskIds: string[]): Promise<TaskResultEntry[]> {
-  const res = await fetch(`${API_BASE}/query_result`, {
+export async function queryResult(
+  taskIds: string[],
+  signal?: AbortSignal,
+  retry?: RetryPolicy,
+): Promise<TaskResultEntry[]> {
+  const res = await fetchWithRetry(`${API_BASE}/query_result`, {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
     body: JSON.stringify({ task_id_list: taskIds }),
-  });
+    signal,
+  }, retry);
 
   if (!res.ok) throw new Error(`queryResult failed: ${res.status}`);
   const envelope: ApiEnvelope<TaskResultEntry[]> = await res.json();
   return envelope.data;
 }
 
-export async function downloadAudio(audioPath: string): Promise<Blob> {
+/**
+ * Ask the server to drop a queued or running task. Best effort: servers
+ * without a cancel endpoint answer 404, which (like any failure) is ignored.
+ * Returns whether the server accepted the cancel.
+ */
+export async function cancelTask(taskId: string): Promise<boolean> {
+  try {
+    const res = await fetch(`${API_BASE}/cancel_task`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ task_id: taskId }),
+    });
+    return res.ok;
+  } catch {
+    return false;
+  }
+}
+
+export async function downloadAudio(audioPath: string, signal?: AbortSignal, retry?: RetryPolicy): Promise<Blob> {
   // The file field from query_result may already be a full URL path like
   // "/v1/audio?path=%2FUsers%2F..." — use it directly via the proxy.
   // Or it may be a bare filesystem path — construct the URL ourselves.
@@ -109,7 +197,7 @@ export async function downloadAudio(audioPath: string): Promise<Blob> {
   } else {
     url = `${API_BASE}/v1/audio?path=${encodeURIComponent(audioPath)}`;
   }
-  const res = await fetch(url);
+  const res = await fetchWithRetry(url, { signal }, retry);
   if (!res.ok) throw new Error(`downloadAudio failed: ${res.status} ${res.statusText}`);
   return res.blob();
 }
@@ -145,6 +233,9 @@ export async function generateCompletion(opts: {
   thinking: boolean;
   sampleMode?: boolean;
   useCotCaption?: boolean;
+  /** Aborts the request; the dev proxy then drops its upstream connection too. */
+  signal?: AbortSignal;
+  retry?: RetryPolicy;
 }): Promise<CompletionResult> {
   // Build content parts
   const parts: CompletionContentPart[] = [];
@@ -189,17 +280,20 @@ export async function generateCompletion(opts: {
   if (opts.sampleMode) body.sample_mode = true;
   if (opts.useCotCaption === false) body.use_cot_caption = false;
 
-  // 10-minute timeout for long generations
+  // 10-minute timeout for long generations, or earlier if the caller cancels
   const controller = new AbortController();
   const timeout = setTimeout(() => controller.abort(), 10 * 60 * 1000);
+  const cancel = () => controller.abort(opts.signal?.reason);
+  if (opts.signal?.aborted) cancel();
+  opts.signal?.addEventListener('abort', cancel);
 
   try {
-    const res = await fetch(`${API_BASE}/v1/chat/completions`, {
+    const res = await fetchWithRetry(`${API_BASE}/v1/chat/completions`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify(body),
       signal: controller.signal,
-    });
+    }, opts.retry, false);
 
     if (!res.ok) {
       const text = await res.text();
@@ -223,6 +317,7 @@ export async function generateCompletion(opts: {
     return { audioBlob, metadata };
   } finally {
     clearTimeout(timeout);
+    opts.signal?.removeEventListener('abort', cancel);
   }
 }
 
@@ -0,0 +1,119 @@
+import { loadAudioBlobByKey } from './audioFileManager';
+import { getAudioEngine } from '../hooks/useAudioEngine';
+
+/**
+ * Decoded AudioBuffers keyed by IndexedDB audio key, shared by playback,
+ * waveforms and export so each blob is decoded once. Least recently used
+ * buffers are evicted once the decoded PCM exceeds MAX_CACHE_BYTES.
+ */
+const MAX_CACHE_BYTES = 512 * 1024 * 1024;
+
+interface CacheEntry {
+  buffer: AudioBuffer;
+  bytes: number;
+}
+
+// Map iteration order is insertion order, so re-inserting on access keeps it LRU-first
+const cache = new Map<string, CacheEntry>();
+const pending = new Map<string, Promise<AudioBuffer | null>>();
+// Bumped on invalidation so decodes already in flight know their result is stale
+const generations = new Map<string, number>();
+let totalBytes = 0;
+
+function bufferBytes(buffer: AudioBuffer): number {
+  return buffer.length * buffer.numberOfChannels * Float32Array.BYTES_PER_ELEMENT;
+}
+
+function evict() {
+  for (const [key, entry] of cache) {
+    if (totalBytes <= MAX_CACHE_BYTES) break;
+    cache.delete(key);
+    totalBytes -= entry.bytes;
+  }
+}
+
+const REVERSED_SUFFIX = ':reversed';
+
+/** Time-reversed copy of a buffer, for clips played backwards. */
+function reverseBuffer(buffer: AudioBuffer): AudioBuffer {
+  const reversed = new AudioBuffer({
+    length: buffer.length,
+    numberOfChannels: buffer.numberOfChannels,
+    sampleRate: buffer.sampleRate,
+  });
+  for (let ch = 0; ch < buffer.numberOfChannels; ch++) {
+    const data = new Float32Array(buffer.getChannelData(ch));
+    data.reverse();
+    reversed.copyToChannel(data, ch);
+  }
+  return reversed;
+}
+
+/**
+ * Cached buffer under `cacheKey`, producing it on a miss. `key` is the
+ * underlying audio key whose invalidation makes the result stale.
+ */
+function getCached(
+  key: string,
+  cacheKey: string,
+  produce: () => Promise<AudioBuffer | null>,
+): Promise<AudioBuffer | null> {
+  const hit = cache.get(cacheKey);
+  if (hit) {
+    cache.delete(cacheKey);
+    cache.set(cacheKey, hit);
+    return Promise.resolve(hit.buffer);
+  }
+
+  // Concurrent callers (e.g. several waveforms) share one decode
+  const inFlight = pending.get(cacheKey);
+  if (inFlight) return inFlight;
+
+  const generation = generations.get(key) ?? 0;
+  const load = (async () => {
+    try {
+      const buffer = await produce();
+      // Invalidated while decoding — don't cache what is already stale
+      if (!buffer || (generations.get(key) ?? 0) !== generation) return buffer;
+      const entry = { buffer, bytes: bufferBytes(buffer) };
+      cache.set(cacheKey, entry);
+      totalBytes += entry.bytes;
+      evict();
+      return buffer;
+    } finally {
+      if ((generations.get(key) ?? 0) === generation) pending.delete(cacheKey);
+    }
+  })();
+  pending.set(cacheKey, load);
+  return load;
+}
+
+/**
+ * Decoded buffer for an audio key, or null if nothing is stored under it.
+ * With `reversed`, a time-reversed copy (cached separately) for reversed clips.
+ */
+export function getAudioBuffer(key: string, reversed: boolean = false): Promise<AudioBuffer | null> {
+  if (reversed) {
+    return getCached(key, key + REVERSED_SUFFIX, async () => {
+      const buffer = await getAudioBuffer(key);
+      return buffer ? reverseBuffer(buffer) : null;
+    });
+  }
+  return getCached(key, key, async () => {
+    const blob = await loadAudioBlobByKey(key);
+    return blob ? getAudioEngine().decodeAudioData(blob) : null;
+  });
+}
+
+/** Drop a key (and its reversed copy) whose stored audio has been replaced. */
+export function invalidateAudioBuffer(key: string) {
+  for (const cacheKey of [key, key + REVERSED_SUFFIX]) {
+    const entry = cache.get(cacheKey);
+    if (entry) {
+      cache.delete(cacheKey);
+      totalBytes -= entry.bytes;
+    }
+    pending.delete(cacheKey);
+  }
+  generations.set(key, (generations.get(key) ?? 0) + 1);
+}
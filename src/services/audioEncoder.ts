@@ -0,0 +1,51 @@
+import EncoderWorker from '../workers/encoder.worker?worker';
+import type { EncodeRequest, EncodeResponse } from '../workers/encoder.worker';
+
+type EncodeOptions = Omit<EncodeRequest, 'id' | 'channels' | 'sampleRate'>;
+
+const MIME_TYPES: Record<EncodeRequest['fileType'], string> = {
+  flac: 'audio/flac',
+  mp3: 'audio/mpeg',
+};
+
+let worker: Worker | null = null;
+let nextId = 1;
+const pending = new Map<number, { resolve: (data: Uint8Array) => void; reject: (error: Error) => void }>();
+
+function getWorker(): Worker {
+  if (!worker) {
+    worker = new EncoderWorker();
+    worker.onmessage = (e: MessageEvent<EncodeResponse>) => {
+      const job = pending.get(e.data.id);
+      if (!job) return;
+      pending.delete(e.data.id);
+      if ('error' in e.data) job.reject(new Error(e.data.error));
+      else job.resolve(e.data.data);
+    };
+    worker.onerror = (e) => {
+      // A crashed worker fails everything in flight; the next call starts a fresh one
+      for (const job of pending.values()) job.reject(new Error(e.message || 'Encoder worker failed'));
+      pending.clear();
+      worker?.terminate();
+      worker = null;
+    };
+  }
+  return worker;
+}
+
+/** Encode a rendered buffer to FLAC or MP3 off the main thread. */
+export function encodeAudioBuffer(buffer: AudioBuffer, options: EncodeOptions): Promise<Blob> {
+  // Copies, so the transfer doesn't detach the AudioBuffer's own storage
+  const channels: Float32Array[] = [];
+  for (let ch = 0; ch < buffer.numberOfChannels; ch++) {
+    channels.push(buffer.getChannelData(ch).slice());
+  }
+
+  const id = nextId++;
+  const request: EncodeRequest = { ...options, id, channels, sampleRate: buffer.sampleRate };
+
+  return new Promise<Uint8Array>((resolve, reject) => {
+    pending.set(id, { resolve, reject });
+    getWorker().postMessage(request, channels.map((c) => c.buffer));
+  }).then((data) => new Blob([data as Uint8Array<ArrayBuffer>], { type: MIME_TYPES[options.fileType] }));
+}
@@ -1,8 +1,8 @@
 import { v4 as uuidv4 } from 'uuid';
 import { useProjectStore } from '../store/projectStore';
 import { useGenerationStore } from '../store/generationStore';
-import type { ApiMode, LegoTaskParams, TaskResultItem } from '../types/api';
-import type { InferredMetas } from '../types/project';
+import type { ApiMode, LegoTaskParams, TaskResultEntry, TaskResultItem } from '../types/api';
+import type { Clip, InferredMetas, Project } from '../types/project';
 import * as api from './aceStepApi';
 import { generateSilenceWav } from './silenceGenerator';
 import { saveAudioBlob, loadAudioBlobByKey } from './audioFileManager';
@@ -10,27 +10,72 @@ import { getAudioEngine } from '../hooks/useAudioEngine';
 import { isolateTrackAudio } from '../engine/waveSubtraction';
 import { audioBufferToWavBlob } from '../utils/wav';
 import { computeWaveformPeaks } from '../utils/waveformPeaks';
-import { POLL_INTERVAL_MS, MAX_POLL_DURATION_MS } from '../constants/defaults';
+import { getTempoAt, getTempoMap } from '../utils/tempoMap';
+import { sleep } from '../utils/sleep';
+import {
+  POLL_INTERVAL_MS,
+  MAX_POLL_DURATION_MS,
+  DEFAULT_MAX_RETRIES,
+  DEFAULT_RETRY_BASE_DELAY_MS,
+} from '../constants/defaults';
+
+/** Abort controllers of in-flight jobs, by job id. Removed once a job can no longer be cancelled. */
+const jobControllers = new Map<string, AbortController>();
+/** Aborted to stop a running Generate All / Regenerate stale before its next clip. */
+let runController: AbortController | null = null;
+
+/** Cancel one job. Its clip goes back to how it was before the job started. */
+export function cancelGenerationJob(jobId: string): void {
+  jobControllers.get(jobId)?.abort();
+}
+
+/** Cancel the running job and every clip still to come in the current run. */
+export function cancelAllGeneration(): void {
+  runController?.abort();
+  for (const controller of jobControllers.values()) controller.abort();
+}
 
 /**
  * Generate all tracks sequentially (bottom → top in generation order).
  */
 export async function generateAllTracks(): Promise<void> {
-  const { project, getTracksInGenerationOrder, updateClipStatus } = useProjectStore.getState();
+  await generateInOrder((clip) => clip.generationStatus !== 'ready');
+}
+
+/**
+ * Regenerate only the stale clips, bottom → top, so each is rebuilt on the
+ * fresh cumulative mix of the layers below it.
+ */
+export async function regenerateStaleClips(): Promise<void> {
+  await generateInOrder((clip) => clip.generationStatus === 'stale');
+}
+
+/**
+ * Walk the tracks in generation order, generating the clips `shouldGenerate`
+ * picks and threading the cumulative mix of ready ones through. Statuses are
+ * re-read as it goes, since each generation can mark clips above it stale.
+ */
+async function generateInOrder(shouldGenerate: (clip: Clip) => boolean): Promise<void> {
+  const { project, getTracksInGenerationOrder, getClipById } = useProjectStore.getState();
   const genStore = useGenerationStore.getState();
 
   if (!project || genStore.isGenerating) return;
   genStore.setIsGenerating(true);
+  const run = new AbortController();
+  runController = run;
 
   try {
     const tracks = getTracksInGenerationOrder();
     let previousCumulativeBlob: Blob | null = null;
 
     for (const track of tracks) {
-      for (const clip of track.clips) {
-        if (clip.generationStatus === 'ready') {
+      for (const { id } of track.clips) {
+        if (run.signal.aborted) return;
+        const clip = getClipById(id);
+        if (!clip) continue;
+        if (!shouldGenerate(clip)) {
           // Already generated — use its cumulative mix as input for next track
-          if (clip.cumulativeMixKey) {
+          if (clip.generationStatus === 'ready' && clip.cumulativeMixKey) {
             const blob = await loadAudioBlobByKey(clip.cumulativeMixKey);
             if (blob) previousCumulativeBlob = blob;
           }
@@ -44,6 +89,7 @@ export async function generateAllTracks(): Promise<void> {
       }
     }
   } finally {
+    runController = null;
     useGenerationStore.getState().setIsGenerating(false);
   }
 }
@@ -65,6 +111,60 @@ export async function generateSingleClip(clipId: string): Promise<void> {
   }
 }
 
+/**
+ * After a reload, collect native tasks that were still running when the page
+ * went away (their ids are saved on the clips), bottom → top. Clips left
+ * mid-generation with nothing to resume are marked as interrupted.
+ */
+export async function resumePendingGenerations(): Promise<void> {
+  const { project, getTracksInGenerationOrder } = useProjectStore.getState();
+  const genStore = useGenerationStore.getState();
+  if (!project || genStore.isGenerating) return;
+
+  const inFlight = new Set(['queued', 'generating', 'processing']);
+  const pending: Clip[] = [];
+  for (const track of getTracksInGenerationOrder()) {
+    for (const clip of track.clips) {
+      if (clip.nativeTaskId) pending.push(clip);
+      else if (inFlight.has(clip.generationStatus)) {
+        useProjectStore.getState().updateClipStatus(clip.id, 'error', {
+          generationJobId: null,
+          errorMessage: 'Generation interrupted by page reload',
+        });
+      }
+    }
+  }
+  if (pending.length === 0) return;
+
+  const retry = getRetryPolicy(project);
+  genStore.setIsGenerating(true);
+  const run = new AbortController();
+  runController = run;
+  try {
+    for (const clip of pending) {
+      if (run.signal.aborted) return;
+      const track = useProjectStore.getState().getTrackForClip(clip.id);
+      const taskId = clip.nativeTaskId;
+      if (!track || !taskId) continue;
+      const previousBlob = await getPreviousCumulativeBlob(clip.id);
+      // The status from before the job is gone; fall back on what the clip's audio says
+      const restore: ClipRestore = {
+        generationStatus: clip.isolatedAudioKey ? 'stale' : 'empty',
+        generationJobId: null,
+        errorMessage: undefined,
+      };
+      await runClipJob(clip, track.trackName, previousBlob, restore, (jobId, signal) => {
+        useGenerationStore.getState().updateJob(jobId, { status: 'generating', progress: 'Resuming...' });
+        useProjectStore.getState().updateClipStatus(clip.id, 'generating');
+        return collectNativeTask(clip.id, taskId, jobId, signal, retry);
+      });
+    }
+  } finally {
+    runController = null;
+    useGenerationStore.getState().setIsGenerating(false);
+  }
+}
+
 async function getPreviousCumulativeBlob(clipId: string): Promise<Blob | null> {
   const { project, getTracksInGenerationOrder } = useProjectStore.getState();
   if (!project) return null;
@@ -99,12 +199,28 @@ async function resolveModel(explicit: string): Promise<string> {
   return 'ACE-Step-v1.5';
 }
 
+/** What the job itself produced: the new cumulative mix and what the model inferred. */
+interface GeneratedAudio {
+  cumulativeBlob: Blob;
+  inferredMetas?: InferredMetas;
+}
+
+/** How this project's API calls retry transient failures. */
+function getRetryPolicy(project: Project): api.RetryPolicy {
+  return {
+    maxRetries: project.generationDefaults.maxRetries ?? DEFAULT_MAX_RETRIES,
+    baseDelayMs: project.generationDefaults.retryBaseDelayMs ?? DEFAULT_RETRY_BASE_DELAY_MS,
+  };
+}
+
+/** Clip fields a cancelled job puts back. */
+type ClipRestore = Pick<Clip, 'generationStatus' | 'generationJobId' | 'errorMessage'>;
+
 async function generateClipInternal(
   clipId: string,
   previousCumulativeBlob: Blob | null,
 ): Promise<Blob | null> {
   const store = useProjectStore.getState();
-  const genStore = useGenerationStore.getState();
   const project = store.project;
   if (!project) return null;
 
@@ -112,23 +228,19 @@ async function generateClipInternal(
   const track = store.getTrackForClip(clipId);
   if (!clip || !track) return null;
 
-  // Create generation job
-  const jobId = uuidv4();
-  genStore.addJob({
-    id: jobId,
-    clipId,
-    trackName: track.trackName,
-    status: 'queued',
-    progress: 'Queued',
-  });
-
-  store.updateClipStatus(clipId, 'queued', { generationJobId: jobId });
+  const restore: ClipRestore = {
+    generationStatus: clip.generationStatus,
+    generationJobId: clip.generationJobId,
+    errorMessage: clip.errorMessage,
+  };
 
-  try {
-    // Resolve common parameters
-    const resolvedBpm = clip.bpm === 'auto' ? null : (clip.bpm ?? project.bpm);
+  return runClipJob(clip, track.trackName, previousCumulativeBlob, restore, async (jobId, signal) => {
+    // Resolve common parameters; tempo and meter default to whatever is in effect where the clip starts
+    const tempoAtStart = getTempoAt(getTempoMap(project), clip.startTime);
+    const resolvedBpm = clip.bpm === 'auto' ? null : (clip.bpm ?? tempoAtStart.bpm);
     const resolvedKey = clip.keyScale === 'auto' ? '' : (clip.keyScale ?? project.keyScale);
-    const resolvedTimeSig = clip.timeSignature === 'auto' ? '' : String(clip.timeSignature ?? project.timeSignature);
+    const resolvedTimeSig = clip.timeSignature === 'auto' ? '' : String(clip.timeSignature ?? tempoAtStart.timeSignature);
+    const retry = getRetryPolicy(project);
 
     // Submit task
     useGenerationStore.getState().updateJob(jobId, { status: 'generating', progress: 'Submitting...' });
@@ -137,9 +249,7 @@ async function generateClipInternal(
     // Read API mode from config
     const config = await api.getApiConfig();
     const mode: ApiMode = config.mode ?? 'completion';
-
-    let cumulativeBlob: Blob;
-    let inferredMetas: InferredMetas | undefined;
+    throwIfCancelled(signal);
 
     if (mode === 'completion') {
       // --- Completion mode: single synchronous request ---
@@ -165,88 +275,131 @@ async function generateClipInternal(
         thinking: project.generationDefaults.thinking,
         sampleMode: clip.sampleMode,
         useCotCaption: clip.autoExpandPrompt === false ? false : undefined,
+        signal,
+        retry,
       });
 
-      cumulativeBlob = result.audioBlob;
-      inferredMetas = {
-        bpm: result.metadata.bpm,
-        keyScale: result.metadata.keyScale,
-        timeSignature: result.metadata.timeSignature,
-        genres: result.metadata.genres,
+      return {
+        cumulativeBlob: result.audioBlob,
+        inferredMetas: {
+          bpm: result.metadata.bpm,
+          keyScale: result.metadata.keyScale,
+          timeSignature: result.metadata.timeSignature,
+          genres: result.metadata.genres,
+        },
       };
-    } else {
-      // --- Native mode: release_task + polling ---
-      const srcAudioBlob = previousCumulativeBlob ?? generateSilenceWav(project.totalDuration);
-      const instruction = `Generate the ${track.trackName.toUpperCase().replace('_', ' ')} track based on the audio context:`;
-
-      const params: LegoTaskParams = {
-        task_type: 'lego',
-        track_name: track.trackName,
-        prompt: clip.prompt,
-        lyrics: clip.lyrics || '',
-        instruction,
-        repainting_start: clip.startTime,
-        repainting_end: clip.startTime + clip.duration,
-        audio_duration: project.totalDuration,
-        bpm: resolvedBpm,
-        key_scale: resolvedKey,
-        time_signature: resolvedTimeSig,
-        inference_steps: project.generationDefaults.inferenceSteps,
-        guidance_scale: project.generationDefaults.guidanceScale,
-        shift: project.generationDefaults.shift,
-        batch_size: 1,
-        audio_format: 'wav',
-        thinking: project.generationDefaults.thinking,
-        model: project.generationDefaults.model || undefined,
-      } as LegoTaskParams;
-
-      if (clip.sampleMode) {
-        params.sample_mode = true;
-        params.sample_query = clip.prompt;
-      }
-      if (clip.autoExpandPrompt === false) {
-        params.use_cot_caption = false;
-      }
+    }
 
-      const releaseResp = await api.releaseLegoTask(srcAudioBlob, params);
-      const taskId = releaseResp.task_id;
+    // --- Native mode: release_task + polling ---
+    const srcAudioBlob = previousCumulativeBlob ?? generateSilenceWav(project.totalDuration);
+    const instruction = `Generate the ${track.trackName.toUpperCase().replace('_', ' ')} track based on the audio context:`;
+
+    const params: LegoTaskParams = {
+      task_type: 'lego',
+      track_name: track.trackName,
+      prompt: clip.prompt,
+      lyrics: clip.lyrics || '',
+      instruction,
+      repainting_start: clip.startTime,
+      repainting_end: clip.startTime + clip.duration,
+      audio_duration: project.totalDuration,
+      bpm: resolvedBpm,
+      key_scale: resolvedKey,
+      time_signature: resolvedTimeSig,
+      inference_steps: project.generationDefaults.inferenceSteps,
+      guidance_scale: project.generationDefaults.guidanceScale,
+      shift: project.generationDefaults.shift,
+      batch_size: 1,
+      audio_format: 'wav',
+      thinking: project.generationDefaults.thinking,
+      model: project.generationDefaults.model || undefined,
+    } as LegoTaskParams;
+
+    if (clip.sampleMode) {
+      params.sample_mode = true;
+      params.sample_query = clip.prompt;
+    }
+    if (clip.autoExpandPrompt === false) {
+      params.use_cot_caption = false;
+    }
 
-      // Poll for completion
-      const startTime = Date.now();
-      let resultAudioPath: string | null = null;
-      let firstResult: TaskResultItem | null = null;
+    const releaseResp = await api.releaseLegoTask(srcAudioBlob, params, signal, retry);
+    // Persist the task id so a reload can pick the task back up
+    useProjectStore.getState().updateClip(clipId, { nativeTaskId: releaseResp.task_id });
+    return collectNativeTask(clipId, releaseResp.task_id, jobId, signal, retry);
+  });
+}
 
-      while (Date.now() - startTime < MAX_POLL_DURATION_MS) {
-        await sleep(POLL_INTERVAL_MS);
+/**
+ * Poll a released native task to completion and download its audio. The
+ * clip's task id is dropped once the server has given a final answer (done,
+ * failed, or we stopped waiting); transient trouble reaching it leaves the id
+ * in place so a reload can try again.
+ */
+async function collectNativeTask(
+  clipId: string,
+  taskId: string,
+  jobId: string,
+  signal: AbortSignal,
+  retry: api.RetryPolicy,
+): Promise<GeneratedAudio> {
+  const forgetTask = () => useProjectStore.getState().updateClip(clipId, { nativeTaskId: null });
+  // The task is queued server-side; free its slot if we give up on it
+  const cancelTask = () => {
+    forgetTask();
+    void api.cancelTask(taskId);
+  };
+  signal.addEventListener('abort', cancelTask);
 
-        const entries = await api.queryResult([taskId]);
-        const entry = entries?.[0];
-        if (!entry) continue;
+  try {
+    // Poll for completion
+    const startTime = Date.now();
+    let resultAudioPath: string | null = null;
+    let firstResult: TaskResultItem | null = null;
+
+    while (Date.now() - startTime < MAX_POLL_DURATION_MS) {
+      await sleep(POLL_INTERVAL_MS, signal);
+
+      let entries: TaskResultEntry[];
+      try {
+        entries = await api.queryResult([taskId], signal, retry);
+      } catch (error) {
+        // Still unreachable after the retries — the task may well be running, so keep waiting
+        if (signal.aborted) throw error;
+        useGenerationStore.getState().updateJob(jobId, { progress: 'Reconnecting...' });
+        continue;
+      }
+      const entry = entries?.[0];
+      if (!entry) continue;
 
-        useGenerationStore.getState().updateJob(jobId, {
-          progress: entry.progress_text || 'Generating...',
-        });
+      useGenerationStore.getState().updateJob(jobId, {
+        progress: entry.progress_text || 'Generating...',
+      });
 
-        if (entry.status === 1) {
-          const resultItems: TaskResultItem[] = JSON.parse(entry.result);
-          firstResult = resultItems?.[0] ?? null;
-          resultAudioPath = firstResult?.file ?? null;
-          break;
-        } else if (entry.status === 2) {
-          throw new Error(`Generation failed: ${entry.result}`);
-        }
+      if (entry.status === 1) {
+        const resultItems: TaskResultItem[] = JSON.parse(entry.result);
+        firstResult = resultItems?.[0] ?? null;
+        resultAudioPath = firstResult?.file ?? null;
+        break;
+      } else if (entry.status === 2) {
+        forgetTask();
+        throw new Error(`Generation failed: ${entry.result}`);
       }
+    }
 
-      if (!resultAudioPath) {
-        throw new Error('Generation timed out');
-      }
+    if (!resultAudioPath) {
+      forgetTask();
+      throw new Error('Generation timed out');
+    }
 
-      useGenerationStore.getState().updateJob(jobId, { status: 'processing', progress: 'Downloading audio...' });
-      useProjectStore.getState().updateClipStatus(clipId, 'processing');
+    useGenerationStore.getState().updateJob(jobId, { status: 'processing', progress: 'Downloading audio...' });
+    useProjectStore.getState().updateClipStatus(clipId, 'processing');
 
-      cumulativeBlob = await api.downloadAudio(resultAudioPath);
+    const cumulativeBlob = await api.downloadAudio(resultAudioPath, signal, retry);
 
-      inferredMetas = firstResult
+    return {
+      cumulativeBlob,
+      inferredMetas: firstResult
         ? {
             bpm: firstResult.metas?.bpm,
             keyScale: firstResult.metas?.keyscale,
@@ -255,10 +408,53 @@ async function generateClipInternal(
             seed: firstResult.seed_value,
             ditModel: firstResult.dit_model,
           }
-        : undefined;
-    }
+        : undefined,
+    };
+  } finally {
+    signal.removeEventListener('abort', cancelTask);
+  }
+}
+
+/**
+ * Run one clip's generation as a cancellable job: `work` produces the new
+ * cumulative mix, then the clip's track is isolated from it by wave
+ * subtraction and stored. Returns the cumulative mix the next layer should
+ * build on — the new one, or `previousCumulativeBlob` if the job didn't finish.
+ */
+async function runClipJob(
+  clip: Clip,
+  trackName: string,
+  previousCumulativeBlob: Blob | null,
+  restore: ClipRestore,
+  work: (jobId: string, signal: AbortSignal) => Promise<GeneratedAudio>,
+): Promise<Blob | null> {
+  const clipId = clip.id;
+  const project = useProjectStore.getState().project;
+  if (!project) return null;
+
+  // Create generation job
+  const jobId = uuidv4();
+  useGenerationStore.getState().addJob({
+    id: jobId,
+    clipId,
+    trackName,
+    status: 'queued',
+    progress: 'Queued',
+  });
+
+  const controller = new AbortController();
+  const { signal } = controller;
+  jobControllers.set(jobId, controller);
+
+  useProjectStore.getState().updateClipStatus(clipId, 'queued', { generationJobId: jobId });
+
+  try {
+    const { cumulativeBlob, inferredMetas } = await work(jobId, signal);
 
     // --- Shared post-processing (both modes) ---
+    // Past this point the clip's stored audio gets overwritten, so there is no going back
+    throwIfCancelled(signal);
+    jobControllers.delete(jobId);
     useGenerationStore.getState().updateJob(jobId, { status: 'processing', progress: 'Processing audio...' });
     useProjectStore.getState().updateClipStatus(clipId, 'processing');
 
@@ -310,6 +506,7 @@ async function generateClipInternal(
 
     // Update clip as ready
     useProjectStore.getState().updateClipStatus(clipId, 'ready', {
+      nativeTaskId: null,
       cumulativeMixKey: cumulativeKey,
       isolatedAudioKey: isolatedKey,
       waveformPeaks: peaks,
@@ -322,13 +519,23 @@ async function generateClipInternal(
 
     return cumulativeBlob;
   } catch (error) {
+    if (signal.aborted) {
+      // Cancelled, not failed: restore the clip as it was before this job
+      useProjectStore.getState().updateClip(clipId, restore);
+      useGenerationStore.getState().updateJob(jobId, { status: 'cancelled', progress: 'Cancelled' });
+      return previousCumulativeBlob;
+    }
     const message = error instanceof Error ? error.message : 'Unknown error';
+    // collectNativeTask drops the task id once the server has answered; one still set
+    // (e.g. the download failed) lets a reload resume the clip from its finished task
     useProjectStore.getState().updateClipStatus(clipId, 'error', { errorMessage: message });
     useGenerationStore.getState().updateJob(jobId, { status: 'error', progress: message, error: message });
     return previousCumulativeBlob;
+  } finally {
+    jobControllers.delete(jobId);
   }
 }
 
-function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+function throwIfCancelled(signal: AbortSignal): void {
+  if (signal.aborted) throw new DOMException('Generation cancelled', 'AbortError');
 }
@@ -4,7 +4,7 @@ export interface GenerationJob {
   id: string;
   clipId: string;
   trackName: string;
-  status: 'queued' | 'generating' | 'processing' | 'done' | 'error';
+  status: 'queued' | 'generating' | 'processing' | 'done' | 'error' | 'cancelled';
   progress: string;
   error?: string;
 }
@@ -36,7 +36,7 @@ export const useGenerationStore = create<GenerationState>((set) => ({
 
   clearCompletedJobs: () =>
     set((s) => ({
-      jobs: s.jobs.filter((j) => j.status !== 'done' && j.status !== 'error'),
+      jobs: s.jobs.filter((j) => j.status !== 'done' && j.status !== 'error' && j.status !== 'cancelled'),
     })),
 
   setIsGenerating: (v) => set({ isGenerating: v }),
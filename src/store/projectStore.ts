@@ -1,8 +1,13 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 import { v4 as uuidv4 } from 'uuid';
-import type { Project, Track, Clip, TrackName, ClipGenerationStatus } from '../types/project';
+import type { Project, Track, Clip, TrackName, ClipGenerationStatus, EffectType, TrackEffect, ReturnBus, MasterSettings, AutomationLane, AutomationTarget, AutomationPoint, TempoChange } from '../types/project';
 import { TRACK_CATALOG } from '../constants/tracks';
+import { isGroupTrack, getTrackDescendants } from '../utils/trackTree';
+import { hasPlayableAudio } from '../utils/clipAudio';
+import { barPositionToTime, getTempoMap, timeToBarPosition } from '../utils/tempoMap';
+import { invalidateAudioBuffer } from '../services/audioBufferCache';
+import { getDefaultEffectParams, DEFAULT_RETURN_BUSES, DEFAULT_MASTER } from '../constants/effects';
 import {
   DEFAULT_BPM,
   DEFAULT_KEY_SCALE,
@@ -15,6 +20,8 @@ import { saveProject as saveProjectToIDB } from '../services/projectStorage';
 const MIN_TIMELINE_DURATION = 30; // seconds
 const TIMELINE_PADDING = 10;      // seconds beyond last clip
 
+export type ProjectSettings = Partial<Pick<Project, 'name' | 'bpm' | 'keyScale' | 'timeSignature'>>;
+
 interface ProjectState {
   project: Project | null;
 
@@ -26,9 +33,39 @@ interface ProjectState {
     timeSignature?: number;
   }) => void;
 
+  /**
+   * Edit name, opening tempo, key and meter. With `keepOnBars`, clips and
+   * automation points move to stay on the same bar position under the new
+   * tempo map; generated clips that move are marked stale.
+   */
+  updateProjectSettings: (updates: ProjectSettings, keepOnBars?: boolean) => void;
+
   addTrack: (trackName: TrackName) => Track;
+  /** Add a group track and move `childIds` into it, in the place of the first of them. */
+  addGroupTrack: (childIds?: string[]) => Track | undefined;
+  /** Nest a track in a group track, or back under the master with null. Refuses cycles. */
+  setTrackParent: (trackId: string, parentId: string | null) => void;
   removeTrack: (trackId: string) => void;
-  updateTrack: (trackId: string, updates: Partial<Pick<Track, 'displayName' | 'volume' | 'muted' | 'soloed'>>) => void;
+  updateTrack: (trackId: string, updates: Partial<Pick<Track, 'displayName' | 'volume' | 'pan' | 'width' | 'muted' | 'soloed'>>) => void;
+
+  addTrackEffect: (trackId: string, type: EffectType) => TrackEffect | undefined;
+  updateTrackEffect: (trackId: string, effectId: string, updates: Partial<TrackEffect>) => void;
+  removeTrackEffect: (trackId: string, effectId: string) => void;
+  moveTrackEffect: (trackId: string, effectId: string, toIndex: number) => void;
+
+  setTrackSend: (trackId: string, returnId: string, level: number) => void;
+
+  addAutomationLane: (trackId: string, target: AutomationTarget) => AutomationLane | undefined;
+  updateAutomationLane: (trackId: string, laneId: string, updates: { target?: AutomationTarget; points?: AutomationPoint[] }) => void;
+  removeAutomationLane: (trackId: string, laneId: string) => void;
+
+  updateReturnBus: (returnId: string, updates: Partial<ReturnBus>) => void;
+  updateMaster: (updates: Partial<MasterSettings>) => void;
+
+  /** Add a tempo/meter change, replacing any already on that bar. */
+  addTempoChange: (change: Omit<TempoChange, 'id'>) => TempoChange | undefined;
+  updateTempoChange: (changeId: string, updates: Partial<Omit<TempoChange, 'id'>>) => void;
+  removeTempoChange: (changeId: string) => void;
 
   addClip: (trackId: string, clip: Omit<Clip, 'id' | 'trackId' | 'generationStatus' | 'generationJobId' | 'cumulativeMixKey' | 'isolatedAudioKey' | 'waveformPeaks'>) => Clip;
   updateClip: (clipId: string, updates: Partial<Clip>) => void;
@@ -55,6 +92,53 @@ function computeTotalDuration(tracks: Track[]): number {
   return Math.max(MIN_TIMELINE_DURATION, maxEnd + TIMELINE_PADDING);
 }
 
+/** Clip fields that shape the audio later layers are conditioned on. */
+const DEPENDENCY_FIELDS = [
+  'startTime', 'duration', 'audioOffset', 'prompt', 'lyrics',
+  'bpm', 'keyScale', 'timeSignature', 'sampleMode', 'autoExpandPrompt',
+] as const satisfies readonly (keyof Clip)[];
+
+interface TimeRange {
+  start: number;
+  end: number;
+}
+
+const clipRange = (clip: Clip): TimeRange => ({ start: clip.startTime, end: clip.startTime + clip.duration });
+
+/**
+ * Mark ready clips stale on every track generated after `sourceTrackId` that
+ * overlap `ranges` — each was conditioned on a cumulative mix that no longer
+ * holds. Cascades: every stale clip's own span dirties the tracks above it.
+ */
+function markDependentsStale(tracks: Track[], sourceTrackId: string, ranges: TimeRange[]): Track[] {
+  const order = [...tracks].sort((a, b) => b.order - a.order);
+  const sourceIndex = order.findIndex((t) => t.id === sourceTrackId);
+  if (sourceIndex < 0) return tracks;
+
+  const dirty = [...ranges];
+  const staleIds = new Set<string>();
+  for (const track of order.slice(sourceIndex + 1)) {
+    const hits = track.clips.filter((c) =>
+      (c.generationStatus === 'ready' || c.generationStatus === 'stale') &&
+      dirty.some((r) => c.startTime < r.end && c.startTime + c.duration > r.start),
+    );
+    for (const clip of hits) {
+      if (clip.generationStatus === 'ready') staleIds.add(clip.id);
+    }
+    dirty.push(...hits.map(clipRange));
+  }
+  if (staleIds.size === 0) return tracks;
+
+  return tracks.map((t) =>
+    t.clips.some((c) => staleIds.has(c.id))
+      ? { ...t, clips: t.clips.map((c) => (staleIds.has(c.id) ? { ...c, generationStatus: 'stale' as const } : c)) }
+      : t,
+  );
+}
+
+/** Whether a clip's audio has fed (or will again feed) the layers above it. */
+const hasGeneratedAudio = (clip: Clip) => clip.generationStatus === 'ready' || clip.generationStatus === 'stale';
+
 export const useProjectStore = create<ProjectState>()(
   persist(
     (set, get) => ({
@@ -73,11 +157,47 @@ export const useProjectStore = create<ProjectState>()(
       timeSignature: params?.timeSignature ?? DEFAULT_TIME_SIGNATURE,
       totalDuration: MIN_TIMELINE_DURATION,
       tracks: [],
+      returns: DEFAULT_RETURN_BUSES.map((r) => ({ ...r })),
+      master: structuredClone(DEFAULT_MASTER),
       generationDefaults: { ...DEFAULT_GENERATION },
     };
     set({ project });
   },
 
+  updateProjectSettings: (updates, keepOnBars = false) => {
+    const state = get();
+    if (!state.project) return;
+    const updated: Project = { ...state.project, ...updates, updatedAt: Date.now() };
+    if (!keepOnBars) {
+      set({ project: updated });
+      return;
+    }
+
+    const oldMap = getTempoMap(state.project);
+    const newMap = getTempoMap(updated);
+    const retime = (t: number) => barPositionToTime(newMap, timeToBarPosition(oldMap, t));
+    const newTracks = updated.tracks.map((track) => ({
+      ...track,
+      clips: track.clips.map((clip) => {
+        const startTime = retime(clip.startTime);
+        const duration = retime(clip.startTime + clip.duration) - startTime;
+        if (Math.abs(startTime - clip.startTime) < 1e-6 && Math.abs(duration - clip.duration) < 1e-6) return clip;
+        // Audio is not time-stretched: the clip keeps playing its old audio from the
+        // same audioOffset at its original speed, cropped or padded with silence to
+        // the new length. It was timed to the old grid, so it's stale until regenerated.
+        const generationStatus = clip.generationStatus === 'ready' ? 'stale' : clip.generationStatus;
+        return { ...clip, startTime, duration, generationStatus };
+      }),
+      automation: track.automation?.map((lane) => ({
+        ...lane,
+        points: lane.points.map((p) => ({ ...p, time: retime(p.time) })),
+      })),
+    }));
+    set({
+      project: { ...updated, tracks: newTracks, totalDuration: computeTotalDuration(newTracks) },
+    });
+  },
+
   addTrack: (trackName) => {
     const state = get();
     if (!state.project) throw new Error('No project');
@@ -93,8 +213,13 @@ export const useProjectStore = create<ProjectState>()(
       color: info.color,
       order: maxOrder + 1,
       volume: 0.8,
+      pan: 0,
+      width: 1,
       muted: false,
       soloed: false,
+      effects: [],
+      sends: [],
+      automation: [],
       clips: [],
     };
 
@@ -111,10 +236,76 @@ export const useProjectStore = create<ProjectState>()(
     return track;
   },
 
+  addGroupTrack: (childIds = []) => {
+    const state = get();
+    if (!state.project) return undefined;
+    const track = state.addTrack('group');
+    const project = get().project!;
+
+    const children = project.tracks
+      .filter((t) => childIds.includes(t.id) && t.id !== track.id)
+      .sort((a, b) => a.order - b.order);
+    const groupCount = project.tracks.filter(isGroupTrack).length;
+    const group: Track = {
+      ...track,
+      displayName: `Group ${groupCount}`,
+      order: children.length > 0 ? children[0].order : track.order,
+      parentId: children[0]?.parentId,
+    };
+
+    set({
+      project: {
+        ...project,
+        updatedAt: Date.now(),
+        tracks: project.tracks.map((t) =>
+          t.id === group.id ? group : children.some((c) => c.id === t.id) ? { ...t, parentId: group.id } : t,
+        ),
+      },
+    });
+    return group;
+  },
+
+  setTrackParent: (trackId, parentId) => {
+    const state = get();
+    if (!state.project) return;
+    const { tracks } = state.project;
+    if (parentId !== null) {
+      const parent = tracks.find((t) => t.id === parentId);
+      if (!parent || !isGroupTrack(parent) || parentId === trackId) return;
+      if (getTrackDescendants(tracks, trackId).some((t) => t.id === parentId)) return;
+    }
+    set({
+      project: {
+        ...state.project,
+        updatedAt: Date.now(),
+        tracks: tracks.map((t) =>
+          t.id === trackId ? { ...t, parentId: parentId ?? undefined } : t,
+        ),
+      },
+    });
+  },
+
   removeTrack: (trackId) => {
     const state = get();
     if (!state.project) return;
-    const newTracks = state.project.tracks.filter((t) => t.id !== trackId);
+    const removed = state.project.tracks.find((t) => t.id === trackId);
+    // Layers above were generated against this track's audio
+    const generatedRanges = removed?.clips.filter(hasGeneratedAudio).map(clipRange) ?? [];
+    const tracks = markDependentsStale(state.project.tracks, trackId, generatedRanges);
+    // A removed group's members move up to its own parent; sidechains keyed from it lose their key
+    const newTracks = tracks
+      .filter((t) => t.id !== trackId)
+      .map((t) => (t.parentId === trackId ? { ...t, parentId: removed?.parentId } : t))
+      .map((t) =>
+        t.effects?.some((e) => e.type === 'sidechain' && e.keyTrackId === trackId)
+          ? {
+              ...t,
+              effects: t.effects.map((e) =>
+                e.type === 'sidechain' && e.keyTrackId === trackId ? { ...e, keyTrackId: null } : e,
+              ),
+            }
+          : t,
+      );
     set({
       project: {
         ...state.project,
@@ -139,6 +330,230 @@ export const useProjectStore = create<ProjectState>()(
     });
   },
 
+  addTrackEffect: (trackId, type) => {
+    const state = get();
+    if (!state.project) return undefined;
+    const effect = { ...getDefaultEffectParams(type), id: uuidv4() } as TrackEffect;
+    set({
+      project: {
+        ...state.project,
+        updatedAt: Date.now(),
+        tracks: state.project.tracks.map((t) =>
+          t.id === trackId ? { ...t, effects: [...(t.effects ?? []), effect] } : t,
+        ),
+      },
+    });
+    return effect;
+  },
+
+  updateTrackEffect: (trackId, effectId, updates) => {
+    const state = get();
+    if (!state.project) return;
+    set({
+      project: {
+        ...state.project,
+        updatedAt: Date.now(),
+        tracks: state.project.tracks.map((t) =>
+          t.id === trackId
+            ? {
+                ...t,
+                effects: (t.effects ?? []).map((e) =>
+                  e.id === effectId ? ({ ...e, ...updates } as TrackEffect) : e,
+                ),
+              }
+            : t,
+        ),
+      },
+    });
+  },
+
+  removeTrackEffect: (trackId, effectId) => {
+    const state = get();
+    if (!state.project) return;
+    set({
+      project: {
+        ...state.project,
+        updatedAt: Date.now(),
+        tracks: state.project.tracks.map((t) =>
+          t.id === trackId
+            ? {
+                ...t,
+                effects: (t.effects ?? []).filter((e) => e.id !== effectId),
+                // Lanes automating the removed effect have nothing left to drive
+                automation: (t.automation ?? []).filter(
+                  (l) => l.target.type !== 'effect' || l.target.effectId !== effectId,
+                ),
+              }
+            : t,
+        ),
+      },
+    });
+  },
+
+  moveTrackEffect: (trackId, effectId, toIndex) => {
+    const state = get();
+    if (!state.project) return;
+    set({
+      project: {
+        ...state.project,
+        updatedAt: Date.now(),
+        tracks: state.project.tracks.map((t) => {
+          if (t.id !== trackId) return t;
+          const effects = [...(t.effects ?? [])];
+          const fromIndex = effects.findIndex((e) => e.id === effectId);
+          if (fromIndex < 0) return t;
+          const [moved] = effects.splice(fromIndex, 1);
+          effects.splice(Math.max(0, Math.min(toIndex, effects.length)), 0, moved);
+          return { ...t, effects };
+        }),
+      },
+    });
+  },
+
+  setTrackSend: (trackId, returnId, level) => {
+    const state = get();
+    if (!state.project) return;
+    set({
+      project: {
+        ...state.project,
+        updatedAt: Date.now(),
+        tracks: state.project.tracks.map((t) => {
+          if (t.id !== trackId) return t;
+          const others = (t.sends ?? []).filter((s) => s.returnId !== returnId);
+          return { ...t, sends: level > 0 ? [...others, { returnId, level }] : others };
+        }),
+      },
+    });
+  },
+
+  addAutomationLane: (trackId, target) => {
+    const state = get();
+    if (!state.project) return undefined;
+    const lane: AutomationLane = { id: uuidv4(), target, points: [] };
+    set({
+      project: {
+        ...state.project,
+        updatedAt: Date.now(),
+        tracks: state.project.tracks.map((t) =>
+          t.id === trackId ? { ...t, automation: [...(t.automation ?? []), lane] } : t,
+        ),
+      },
+    });
+    return lane;
+  },
+
+  updateAutomationLane: (trackId, laneId, updates) => {
+    const state = get();
+    if (!state.project) return;
+    const points = updates.points && [...updates.points].sort((a, b) => a.time - b.time);
+    set({
+      project: {
+        ...state.project,
+        updatedAt: Date.now(),
+        tracks: state.project.tracks.map((t) =>
+          t.id === trackId
+            ? {
+                ...t,
+                automation: (t.automation ?? []).map((l) =>
+                  l.id === laneId ? { ...l, ...updates, ...(points ? { points } : {}) } : l,
+                ),
+              }
+            : t,
+        ),
+      },
+    });
+  },
+
+  removeAutomationLane: (trackId, laneId) => {
+    const state = get();
+    if (!state.project) return;
+    set({
+      project: {
+        ...state.project,
+        updatedAt: Date.now(),
+        tracks: state.project.tracks.map((t) =>
+          t.id === trackId
+            ? { ...t, automation: (t.automation ?? []).filter((l) => l.id !== laneId) }
+            : t,
+        ),
+      },
+    });
+  },
+
+  updateReturnBus: (returnId, updates) => {
+    const state = get();
+    if (!state.project) return;
+    const returns = state.project.returns ?? DEFAULT_RETURN_BUSES;
+    set({
+      project: {
+        ...state.project,
+        updatedAt: Date.now(),
+        returns: returns.map((r) =>
+          r.id === returnId ? ({ ...r, ...updates } as ReturnBus) : r,
+        ),
+      },
+    });
+  },
+
+  updateMaster: (updates) => {
+    const state = get();
+    if (!state.project) return;
+    set({
+      project: {
+        ...state.project,
+        updatedAt: Date.now(),
+        master: { ...(state.project.master ?? DEFAULT_MASTER), ...updates },
+      },
+    });
+  },
+
+  addTempoChange: (changeData) => {
+    const state = get();
+    if (!state.project) return undefined;
+    const change: TempoChange = { id: uuidv4(), ...changeData };
+    set({
+      project: {
+        ...state.project,
+        updatedAt: Date.now(),
+        tempoChanges: [
+          ...(state.project.tempoChanges ?? []).filter((c) => c.bar !== change.bar),
+          change,
+        ].sort((a, b) => a.bar - b.bar),
+      },
+    });
+    return change;
+  },
+
+  updateTempoChange: (changeId, updates) => {
+    const state = get();
+    if (!state.project) return;
+    const changes = state.project.tempoChanges ?? [];
+    const bar = updates.bar;
+    set({
+      project: {
+        ...state.project,
+        updatedAt: Date.now(),
+        // Moving onto another change's bar takes its place
+        tempoChanges: changes
+          .filter((c) => bar == null || c.id === changeId || c.bar !== bar)
+          .map((c) => (c.id === changeId ? { ...c, ...updates } : c))
+          .sort((a, b) => a.bar - b.bar),
+      },
+    });
+  },
+
+  removeTempoChange: (changeId) => {
+    const state = get();
+    if (!state.project) return;
+    set({
+      project: {
+        ...state.project,
+        updatedAt: Date.now(),
+        tempoChanges: (state.project.tempoChanges ?? []).filter((c) => c.id !== changeId),
+      },
+    });
+  },
+
   addClip: (trackId, clipData) => {
     const state = get();
     if (!state.project) throw new Error('No project');
@@ -179,12 +594,20 @@ export const useProjectStore = create<ProjectState>()(
   updateClip: (clipId, updates) => {
     const state = get();
     if (!state.project) return;
-    const newTracks = state.project.tracks.map((t) => ({
+    const oldClip = state.getClipById(clipId);
+    let newTracks = state.project.tracks.map((t) => ({
       ...t,
       clips: t.clips.map((c) =>
         c.id === clipId ? { ...c, ...updates } : c,
       ),
     }));
+    const changesAudio = DEPENDENCY_FIELDS.some((f) => f in updates && updates[f] !== oldClip?.[f]);
+    if (oldClip && hasGeneratedAudio(oldClip) && changesAudio) {
+      newTracks = markDependentsStale(newTracks, oldClip.trackId, [
+        clipRange(oldClip),
+        clipRange({ ...oldClip, ...updates }),
+      ]);
+    }
     set({
       project: {
         ...state.project,
@@ -198,10 +621,14 @@ export const useProjectStore = create<ProjectState>()(
   removeClip: (clipId) => {
     const state = get();
     if (!state.project) return;
-    const newTracks = state.project.tracks.map((t) => ({
+    const oldClip = state.getClipById(clipId);
+    let newTracks = state.project.tracks.map((t) => ({
       ...t,
       clips: t.clips.filter((c) => c.id !== clipId),
     }));
+    if (oldClip && hasGeneratedAudio(oldClip)) {
+      newTracks = markDependentsStale(newTracks, oldClip.trackId, [clipRange(oldClip)]);
+    }
     set({
       project: {
         ...state.project,
@@ -224,16 +651,17 @@ export const useProjectStore = create<ProjectState>()(
     }
     if (!sourceClip || !trackId) return undefined;
 
-    const isReady = sourceClip.generationStatus === 'ready' && !!sourceClip.isolatedAudioKey;
+    const hasAudio = hasPlayableAudio(sourceClip);
     const newClip: Clip = {
       ...sourceClip,
       id: uuidv4(),
       startTime: sourceClip.startTime + sourceClip.duration,
-      generationStatus: isReady ? 'ready' : 'empty',
+      generationStatus: hasAudio ? sourceClip.generationStatus : 'empty',
       generationJobId: null,
+      nativeTaskId: null,
       cumulativeMixKey: sourceClip.cumulativeMixKey,
-      isolatedAudioKey: isReady ? sourceClip.isolatedAudioKey : null,
-      waveformPeaks: isReady && sourceClip.waveformPeaks ? [...sourceClip.waveformPeaks] : null,
+      isolatedAudioKey: hasAudio ? sourceClip.isolatedAudioKey : null,
+      waveformPeaks: hasAudio && sourceClip.waveformPeaks ? [...sourceClip.waveformPeaks] : null,
     };
 
     const newTracks = state.project.tracks.map((t) =>
@@ -255,16 +683,25 @@ export const useProjectStore = create<ProjectState>()(
   updateClipStatus: (clipId, status, extra) => {
     const state = get();
     if (!state.project) return;
+    // Keys are deterministic per clip, so a regeneration rewrites the same key
+    if (extra?.cumulativeMixKey) invalidateAudioBuffer(extra.cumulativeMixKey);
+    if (extra?.isolatedAudioKey) invalidateAudioBuffer(extra.isolatedAudioKey);
+    const oldClip = state.getClipById(clipId);
+    let newTracks = state.project.tracks.map((t) => ({
+      ...t,
+      clips: t.clips.map((c) =>
+        c.id === clipId ? { ...c, generationStatus: status, ...extra } : c,
+      ),
+    }));
+    // A fresh generation changes the cumulative mix every layer above was built on
+    if (oldClip && status === 'ready' && oldClip.generationStatus !== 'ready') {
+      newTracks = markDependentsStale(newTracks, oldClip.trackId, [clipRange({ ...oldClip, ...extra })]);
+    }
     set({
       project: {
         ...state.project,
         updatedAt: Date.now(),
-        tracks: state.project.tracks.map((t) => ({
-          ...t,
-          clips: t.clips.map((c) =>
-            c.id === clipId ? { ...c, generationStatus: status, ...extra } : c,
-          ),
-        })),
+        tracks: newTracks,
       },
     });
   },
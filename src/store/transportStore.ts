@@ -6,6 +6,10 @@ interface TransportState {
   loopEnabled: boolean;
   loopStart: number;
   loopEnd: number;
+  metronomeEnabled: boolean;
+  metronomeVolume: number; // 0..1
+  /** Bars of click before playback starts (0 = off). */
+  countInBars: number;
 
   play: () => void;
   pause: () => void;
@@ -14,6 +18,9 @@ interface TransportState {
   setCurrentTime: (time: number) => void;
   toggleLoop: () => void;
   setLoopRegion: (start: number, end: number) => void;
+  toggleMetronome: () => void;
+  setMetronomeVolume: (volume: number) => void;
+  setCountInBars: (bars: number) => void;
 }
 
 export const useTransportStore = create<TransportState>((set) => ({
@@ -22,6 +29,9 @@ export const useTransportStore = create<TransportState>((set) => ({
   loopEnabled: false,
   loopStart: 0,
   loopEnd: 0,
+  metronomeEnabled: false,
+  metronomeVolume: 0.7,
+  countInBars: 0,
 
   play: () => set({ isPlaying: true }),
   pause: () => set({ isPlaying: false }),
@@ -30,4 +40,7 @@ export const useTransportStore = create<TransportState>((set) => ({
   setCurrentTime: (time) => set({ currentTime: time }),
   toggleLoop: () => set((s) => ({ loopEnabled: !s.loopEnabled })),
   setLoopRegion: (start, end) => set({ loopStart: start, loopEnd: end }),
+  toggleMetronome: () => set((s) => ({ metronomeEnabled: !s.metronomeEnabled })),
+  setMetronomeVolume: (volume) => set({ metronomeVolume: volume }),
+  setCountInBars: (bars) => set({ countInBars: bars }),
 }));
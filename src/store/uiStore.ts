@@ -6,10 +6,17 @@ interface UIState {
   scrollY: number;
   selectedClipIds: Set<string>;
   editingClipId: string | null;
+  /** Tracks whose automation lanes are expanded under them. */
+  automationTrackIds: Set<string>;
+  /** Group tracks folded shut in the track list and timeline. */
+  collapsedGroupIds: Set<string>;
+  /** Mixer console docked under the timeline. */
+  showMixer: boolean;
   showNewProjectDialog: boolean;
   showInstrumentPicker: boolean;
   showExportDialog: boolean;
   showSettingsDialog: boolean;
+  showProjectSettingsDialog: boolean;
   showProjectListDialog: boolean;
 
   setPixelsPerSecond: (pps: number) => void;
@@ -20,10 +27,14 @@ interface UIState {
   selectClip: (clipId: string, multi?: boolean) => void;
   deselectAll: () => void;
   setEditingClip: (clipId: string | null) => void;
+  toggleAutomationLanes: (trackId: string) => void;
+  toggleGroupCollapsed: (trackId: string) => void;
+  setShowMixer: (v: boolean) => void;
   setShowNewProjectDialog: (v: boolean) => void;
   setShowInstrumentPicker: (v: boolean) => void;
   setShowExportDialog: (v: boolean) => void;
   setShowSettingsDialog: (v: boolean) => void;
+  setShowProjectSettingsDialog: (v: boolean) => void;
   setShowProjectListDialog: (v: boolean) => void;
 }
 
@@ -35,10 +46,14 @@ export const useUIStore = create<UIState>((set) => ({
   scrollY: 0,
   selectedClipIds: new Set(),
   editingClipId: null,
+  automationTrackIds: new Set(),
+  collapsedGroupIds: new Set(),
+  showMixer: false,
   showNewProjectDialog: false,
   showInstrumentPicker: false,
   showExportDialog: false,
   showSettingsDialog: false,
+  showProjectSettingsDialog: false,
   showProjectListDialog: false,
 
   setPixelsPerSecond: (pps) => set({ pixelsPerSecond: pps }),
@@ -74,9 +89,28 @@ export const useUIStore = create<UIState>((set) => ({
   deselectAll: () => set({ selectedClipIds: new Set() }),
 
   setEditingClip: (clipId) => set({ editingClipId: clipId }),
+
+  toggleAutomationLanes: (trackId) =>
+    set((s) => {
+      const next = new Set(s.automationTrackIds);
+      if (next.has(trackId)) next.delete(trackId);
+      else next.add(trackId);
+      return { automationTrackIds: next };
+    }),
+
+  toggleGroupCollapsed: (trackId) =>
+    set((s) => {
+      const next = new Set(s.collapsedGroupIds);
+      if (next.has(trackId)) next.delete(trackId);
+      else next.add(trackId);
+      return { collapsedGroupIds: next };
+    }),
+
+  setShowMixer: (v) => set({ showMixer: v }),
   setShowNewProjectDialog: (v) => set({ showNewProjectDialog: v }),
   setShowInstrumentPicker: (v) => set({ showInstrumentPicker: v }),
   setShowExportDialog: (v) => set({ showExportDialog: v }),
   setShowSettingsDialog: (v) => set({ showSettingsDialog: v }),
+  setShowProjectSettingsDialog: (v) => set({ showProjectSettingsDialog: v }),
   setShowProjectListDialog: (v) => set({ showProjectListDialog: v }),
 }));
@@ -2,11 +2,15 @@ export type TrackName =
   | 'woodwinds' | 'brass' | 'fx' | 'synth' | 'strings'
   | 'percussion' | 'keyboard' | 'guitar' | 'bass' | 'drums'
   | 'backing_vocals' | 'vocals'
-  | 'custom';
+  | 'custom'
+  | 'group';
 
 export type ClipGenerationStatus =
   | 'empty' | 'queued' | 'generating' | 'processing' | 'ready' | 'error' | 'stale';
 
+/** Gain shape of a fade, described as a fade-in (fade-outs mirror it). */
+export type FadeCurve = 'linear' | 'exponential' | 'equal-power' | 's-curve';
+
 export interface InferredMetas {
   bpm?: number;
   keyScale?: string;
@@ -29,6 +33,8 @@ export interface Clip {
   isolatedAudioKey: string | null;
   waveformPeaks: number[] | null;
   errorMessage?: string;
+  // Native-mode task still being collected; kept across reloads so polling can resume
+  nativeTaskId?: string | null;
   // Per-clip overrides: 'auto' = ACE-Step infers, undefined/null = project defaults, value = manual
   bpm?: number | 'auto' | null;
   keyScale?: string | 'auto' | null;
@@ -39,6 +45,140 @@ export interface Clip {
   // Crop support: original audio duration and offset into it
   audioDuration?: number;  // Full audio buffer duration (set at gen/import)
   audioOffset?: number;    // Offset into audio buffer (seconds), default 0
+  // Fades (seconds from each clip edge), default 0 / 'linear'
+  fadeIn?: number;
+  fadeOut?: number;
+  fadeInCurve?: FadeCurve;
+  fadeOutCurve?: FadeCurve;
+  // Non-destructive level/playback options
+  gain?: number;               // dB, default 0
+  polarityInverted?: boolean;
+  reversed?: boolean;          // plays the same cropped region backwards
+}
+
+export type EffectType = 'eq' | 'compressor' | 'sidechain' | 'saturation';
+
+export type EqBandType = 'lowshelf' | 'peaking' | 'highshelf' | 'lowpass' | 'highpass';
+
+export interface EqBand {
+  type: EqBandType;
+  frequency: number; // Hz
+  gain: number;      // dB (ignored by lowpass/highpass)
+  q: number;
+}
+
+interface EffectBase {
+  id: string;
+  bypassed: boolean;
+}
+
+export interface EqEffect extends EffectBase {
+  type: 'eq';
+  bands: EqBand[];
+}
+
+export interface CompressorEffect extends EffectBase {
+  type: 'compressor';
+  threshold: number;  // dB
+  knee: number;       // dB
+  ratio: number;
+  attack: number;     // seconds
+  release: number;    // seconds
+  makeupGain: number; // dB
+}
+
+/** Compressor whose gain reduction follows another track's output (ducking). */
+export interface SidechainCompressorEffect extends EffectBase {
+  type: 'sidechain';
+  keyTrackId: string | null; // track whose post-fader signal drives the compressor
+  threshold: number;  // dB
+  knee: number;       // dB
+  ratio: number;
+  attack: number;     // seconds
+  release: number;    // seconds
+  makeupGain: number; // dB
+}
+
+export interface SaturationEffect extends EffectBase {
+  type: 'saturation';
+  drive: number;      // dB of gain into the shaper
+  mix: number;        // 0..1 wet/dry
+  outputGain: number; // dB
+}
+
+export type TrackEffect = EqEffect | CompressorEffect | SidechainCompressorEffect | SaturationEffect;
+
+export type ReturnBusType = 'reverb' | 'delay';
+
+interface ReturnBusBase {
+  id: string;
+  name: string;
+  volume: number;
+  muted: boolean;
+}
+
+export interface ReverbReturn extends ReturnBusBase {
+  type: 'reverb';
+  decay: number;    // seconds to -60 dB
+  preDelay: number; // seconds
+  damping: number;  // lowpass cutoff on the wet signal (Hz)
+}
+
+export interface DelayReturn extends ReturnBusBase {
+  type: 'delay';
+  division: number; // delay length in beats, follows project BPM
+  feedback: number; // 0..0.95
+  damping: number;  // lowpass cutoff inside the feedback loop (Hz)
+}
+
+export type ReturnBus = ReverbReturn | DelayReturn;
+
+export interface TrackSend {
+  returnId: string;
+  level: number; // 0..1, post-fader
+}
+
+export interface GlueCompressorSettings {
+  enabled: boolean;
+  threshold: number;  // dB
+  knee: number;       // dB
+  ratio: number;
+  attack: number;     // seconds
+  release: number;    // seconds
+  makeupGain: number; // dB
+}
+
+export interface LimiterSettings {
+  enabled: boolean;
+  ceiling: number; // dBTP
+  release: number; // seconds
+}
+
+export interface MasterSettings {
+  volume: number;
+  glue: GlueCompressorSettings;
+  limiter: LimiterSettings;
+}
+
+/**
+ * What an automation lane drives: the track fader, its pan, or one numeric
+ * parameter of an insert effect ('threshold', 'mix', 'bands.2.gain', ...).
+ */
+export type AutomationTarget =
+  | { type: 'volume' }
+  | { type: 'pan' }
+  | { type: 'effect'; effectId: string; param: string };
+
+export interface AutomationPoint {
+  time: number;  // seconds
+  value: number; // in the target's own units (0..1 volume, -1..1 pan, dB, ...)
+}
+
+/** Breakpoints, sorted by time, joined by linear ramps. */
+export interface AutomationLane {
+  id: string;
+  target: AutomationTarget;
+  points: AutomationPoint[];
 }
 
 export interface Track {
@@ -47,9 +187,17 @@ export interface Track {
   displayName: string;
   color: string;
   order: number;
+  // Group track this one is summed into; missing means it feeds the master.
+  parentId?: string;
   volume: number;
+  pan?: number;    // -1 (left) .. 1 (right), default 0
+  width?: number;  // 0 (mono) .. 2 (extra wide), default 1
   muted: boolean;
   soloed: boolean;
+  // Ordered insert chain, applied pre-fader. Missing on projects saved before effects existed.
+  effects?: TrackEffect[];
+  sends?: TrackSend[];
+  automation?: AutomationLane[];
   clips: Clip[];
 }
 
@@ -59,6 +207,20 @@ export interface GenerationDefaults {
   shift: number;
   thinking: boolean;
   model: string;
+  // Retries for transient API failures, with exponential backoff from the base delay. Missing on older projects.
+  maxRetries?: number;
+  retryBaseDelayMs?: number;
+}
+
+/** Tempo and meter from the start of `bar` onward. */
+export interface TempoChange {
+  id: string;
+  /** 1-based bar the change lands on. */
+  bar: number;
+  bpm: number;
+  timeSignature: number;
+  /** Glide linearly from the previous tempo, reaching `bpm` on this bar, instead of jumping. */
+  ramp?: boolean;
 }
 
 export interface Project {
@@ -69,7 +231,12 @@ export interface Project {
   bpm: number;
   keyScale: string;
   timeSignature: number;
+  // Changes after bar 1; bpm/timeSignature above are the opening tempo. Missing on older projects.
+  tempoChanges?: TempoChange[];
   totalDuration: number;
   tracks: Track[];
+  // Shared aux returns fed by track sends. Missing on older projects (defaults apply).
+  returns?: ReturnBus[];
+  master?: MasterSettings;
   generationDefaults: GenerationDefaults;
 }
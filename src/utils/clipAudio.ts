@@ -0,0 +1,9 @@
+import type { Clip } from '../types/project';
+
+/**
+ * Whether a clip has generated audio to play. Stale clips keep theirs until
+ * they are regenerated — stale means "needs regeneration", not "muted".
+ */
+export function hasPlayableAudio(clip: Pick<Clip, 'generationStatus' | 'isolatedAudioKey'>): boolean {
+  return (clip.generationStatus === 'ready' || clip.generationStatus === 'stale') && !!clip.isolatedAudioKey;
+}
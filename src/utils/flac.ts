@@ -0,0 +1,397 @@
+/**
+ * Minimal FLAC encoder: fixed-predictor subframes (orders 0–4), partitioned
+ * Rice residuals and per-frame stereo decorrelation. Typically lands within a
+ * few percent of `flac -5` on music, with no dependencies.
+ */
+
+export interface FlacEncodeOptions {
+  sampleRate: number;
+  bitsPerSample: 16 | 24;
+  /** Vorbis comments, e.g. { TITLE: 'My song', BPM: '120' } */
+  tags?: Record<string, string>;
+}
+
+const BLOCK_SIZE = 4096;
+const MAX_PARTITION_ORDER = 6;
+const MAX_FIXED_ORDER = 4;
+
+// Frame header sample-rate codes for the common rates; anything else is
+// written as an explicit 16-bit value in Hz.
+const SAMPLE_RATE_CODES: Record<number, number> = {
+  88200: 0b0001, 176400: 0b0010, 192000: 0b0011,
+  8000: 0b0100, 16000: 0b0101, 22050: 0b0110, 24000: 0b0111,
+  32000: 0b1000, 44100: 0b1001, 48000: 0b1010, 96000: 0b1011,
+};
+
+class BitWriter {
+  private bytes = new Uint8Array(1 << 16);
+  private pos = 0;     // byte position
+  private acc = 0;     // pending bits (msb first)
+  private accBits = 0;
+
+  private ensure(extra: number) {
+    if (this.pos + extra <= this.bytes.length) return;
+    let size = this.bytes.length * 2;
+    while (size < this.pos + extra) size *= 2;
+    const next = new Uint8Array(size);
+    next.set(this.bytes.subarray(0, this.pos));
+    this.bytes = next;
+  }
+
+  /** Write the low `bits` bits of a non-negative value (bits ≤ 32). */
+  write(value: number, bits: number) {
+    this.ensure(8);
+    while (bits > 0) {
+      const take = Math.min(bits, 8 - this.accBits);
+      bits -= take;
+      const chunk = Math.floor(value / 2 ** bits) & ((1 << take) - 1);
+      this.acc = (this.acc << take) | chunk;
+      this.accBits += take;
+      if (this.accBits === 8) {
+        this.bytes[this.pos++] = this.acc;
+        this.acc = 0;
+        this.accBits = 0;
+      }
+    }
+  }
+
+  writeSigned(value: number, bits: number) {
+    this.write(value < 0 ? value + 2 ** bits : value, bits);
+  }
+
+  writeUnary(zeros: number) {
+    while (zeros >= 24) {
+      this.write(0, 24);
+      zeros -= 24;
+    }
+    this.write(1, zeros + 1);
+  }
+
+  alignToByte() {
+    if (this.accBits > 0) this.write(0, 8 - this.accBits);
+  }
+
+  get byteLength() { return this.pos; }
+
+  bytesFrom(start: number): Uint8Array {
+    return this.bytes.subarray(start, this.pos);
+  }
+
+  finish(): Uint8Array {
+    this.alignToByte();
+    return this.bytes.slice(0, this.pos);
+  }
+}
+
+const CRC8_TABLE = makeCrcTable(0x07, 8);
+const CRC16_TABLE = makeCrcTable(0x8005, 16);
+
+function makeCrcTable(poly: number, width: 8 | 16): Uint16Array {
+  const table = new Uint16Array(256);
+  const top = 1 << (width - 1);
+  const mask = (1 << width) - 1;
+  for (let i = 0; i < 256; i++) {
+    let crc = i << (width - 8);
+    for (let k = 0; k < 8; k++) crc = crc & top ? ((crc << 1) ^ poly) & mask : (crc << 1) & mask;
+    table[i] = crc;
+  }
+  return table;
+}
+
+function crc8(data: Uint8Array): number {
+  let crc = 0;
+  for (let i = 0; i < data.length; i++) crc = CRC8_TABLE[crc ^ data[i]];
+  return crc;
+}
+
+function crc16(data: Uint8Array): number {
+  let crc = 0;
+  for (let i = 0; i < data.length; i++) crc = ((crc << 8) & 0xFFFF) ^ CRC16_TABLE[(crc >> 8) ^ data[i]];
+  return crc;
+}
+
+/** Fixed-predictor residual of the given order (first `order` samples are warm-up). */
+function fixedResidual(samples: Float64Array, order: number): Float64Array {
+  const n = samples.length;
+  const residual = new Float64Array(n - order);
+  for (let i = order; i < n; i++) {
+    const s0 = samples[i];
+    let r: number;
+    switch (order) {
+      case 0: r = s0; break;
+      case 1: r = s0 - samples[i - 1]; break;
+      case 2: r = s0 - 2 * samples[i - 1] + samples[i - 2]; break;
+      case 3: r = s0 - 3 * samples[i - 1] + 3 * samples[i - 2] - samples[i - 3]; break;
+      default: r = s0 - 4 * samples[i - 1] + 6 * samples[i - 2] - 4 * samples[i - 3] + samples[i - 4];
+    }
+    residual[i - order] = r;
+  }
+  return residual;
+}
+
+const zigzag = (r: number) => (r >= 0 ? 2 * r : -2 * r - 1);
+
+interface RicePlan {
+  partitionOrder: number;
+  params: number[];
+  paramBits: 4 | 5;
+  bits: number;
+}
+
+function riceBits(sum: number, count: number, k: number): number {
+  // Each value costs (u >> k) + 1 + k bits; the shifted sum is approximated
+  // from the total, which is what the reference encoder does too.
+  return count * (k + 1) + Math.floor(sum / 2 ** k);
+}
+
+function bestRiceParam(sum: number, count: number, maxParam: number): { k: number; bits: number } {
+  if (count === 0) return { k: 0, bits: 0 };
+  const mean = sum / count;
+  let guess = mean > 1 ? Math.floor(Math.log2(mean)) : 0;
+  guess = Math.min(maxParam, guess);
+  let best = { k: guess, bits: riceBits(sum, count, guess) };
+  for (const k of [guess - 1, guess + 1]) {
+    if (k < 0 || k > maxParam) continue;
+    const bits = riceBits(sum, count, k);
+    if (bits < best.bits) best = { k, bits };
+  }
+  return best;
+}
+
+function planRice(residual: Float64Array, blockSize: number, order: number): RicePlan {
+  const u = residual.map(zigzag);
+  let best: RicePlan | null = null;
+
+  for (let p = 0; p <= MAX_PARTITION_ORDER; p++) {
+    const partitionSize = blockSize >> p;
+    if (blockSize % (1 << p) !== 0 || partitionSize <= order) break;
+
+    const params: number[] = [];
+    let bits = 0;
+    let maxK = 0;
+    let idx = 0;
+    for (let part = 0; part < 1 << p; part++) {
+      const count = part === 0 ? partitionSize - order : partitionSize;
+      let sum = 0;
+      for (let i = 0; i < count; i++) sum += u[idx + i];
+      idx += count;
+      const { k, bits: partBits } = bestRiceParam(sum, count, 30);
+      params.push(k);
+      bits += partBits;
+      maxK = Math.max(maxK, k);
+    }
+    const paramBits = maxK <= 14 ? 4 : 5;
+    bits += (1 << p) * paramBits;
+
+    if (!best || bits < best.bits) best = { partitionOrder: p, params, paramBits, bits };
+  }
+  return best!;
+}
+
+interface SubframePlan {
+  kind: 'constant' | 'verbatim' | 'fixed';
+  order: number;
+  rice: RicePlan | null;
+  bits: number;
+}
+
+function planSubframe(samples: Float64Array, bps: number): SubframePlan {
+  const n = samples.length;
+  let constant = true;
+  for (let i = 1; i < n; i++) {
+    if (samples[i] !== samples[0]) { constant = false; break; }
+  }
+  if (constant) return { kind: 'constant', order: 0, rice: null, bits: 8 + bps };
+
+  let best: SubframePlan = { kind: 'verbatim', order: 0, rice: null, bits: 8 + n * bps };
+  for (let order = 0; order <= Math.min(MAX_FIXED_ORDER, n - 1); order++) {
+    const rice = planRice(fixedResidual(samples, order), n, order);
+    const bits = 8 + order * bps + 6 + rice.bits;
+    if (bits < best.bits) best = { kind: 'fixed', order, rice, bits };
+  }
+  return best;
+}
+
+function writeSubframe(w: BitWriter, samples: Float64Array, bps: number, plan: SubframePlan) {
+  w.write(0, 1); // zero padding bit
+  if (plan.kind === 'constant') {
+    w.write(0b000000, 6);
+    w.write(0, 1);
+    w.writeSigned(samples[0], bps);
+    return;
+  }
+  if (plan.kind === 'verbatim') {
+    w.write(0b000001, 6);
+    w.write(0, 1);
+    for (let i = 0; i < samples.length; i++) w.writeSigned(samples[i], bps);
+    return;
+  }
+
+  const { order } = plan;
+  const rice = plan.rice!;
+  w.write(0b001000 | order, 6);
+  w.write(0, 1);
+  for (let i = 0; i < order; i++) w.writeSigned(samples[i], bps);
+
+  w.write(rice.paramBits === 4 ? 0 : 1, 2); // RICE / RICE2
+  w.write(rice.partitionOrder, 4);
+  const residual = fixedResidual(samples, order);
+  const partitionSize = samples.length >> rice.partitionOrder;
+  let idx = 0;
+  rice.params.forEach((k, part) => {
+    w.write(k, rice.paramBits);
+    const count = part === 0 ? partitionSize - order : partitionSize;
+    const divisor = 2 ** k;
+    for (let i = 0; i < count; i++) {
+      const u = zigzag(residual[idx++]);
+      const q = Math.floor(u / divisor);
+      w.writeUnary(q);
+      if (k > 0) w.write(u - q * divisor, k);
+    }
+  });
+}
+
+/** FLAC's UTF-8-like variable length integer for the frame number. */
+function writeUtf8Number(w: BitWriter, value: number) {
+  if (value < 0x80) {
+    w.write(value, 8);
+    return;
+  }
+  let bytes = 2;
+  while (bytes < 7 && value >= 2 ** (5 * bytes + 1)) bytes++;
+  const shift = 6 * (bytes - 1);
+  const lead = (0xFF00 >> bytes) & 0xFF;
+  w.write(lead | Math.floor(value / 2 ** shift), 8);
+  for (let i = bytes - 2; i >= 0; i--) {
+    w.write(0x80 | (Math.floor(value / 2 ** (6 * i)) & 0x3F), 8);
+  }
+}
+
+type ChannelAssignment = 'independent' | 'left-side' | 'right-side' | 'mid-side';
+
+function writeFrame(
+  w: BitWriter,
+  channels: Int32Array[],
+  start: number,
+  blockSize: number,
+  frameNumber: number,
+  options: FlacEncodeOptions,
+) {
+  const bps = options.bitsPerSample;
+  const block = channels.map((ch) => Float64Array.from(ch.subarray(start, start + blockSize)));
+
+  // Pick the cheapest stereo decorrelation for this block
+  let assignment: ChannelAssignment = 'independent';
+  let subframes: Array<{ samples: Float64Array; bps: number; plan: SubframePlan }> =
+    block.map((samples) => ({ samples, bps, plan: planSubframe(samples, bps) }));
+
+  if (block.length === 2) {
+    const [left, right] = block;
+    const side = left.map((l, i) => l - right[i]);
+    const mid = left.map((l, i) => Math.floor((l + right[i]) / 2));
+    const leftPlan = subframes[0].plan;
+    const rightPlan = subframes[1].plan;
+    const sidePlan = planSubframe(side, bps + 1);
+    const midPlan = planSubframe(mid, bps);
+
+    const candidates: Array<[ChannelAssignment, number]> = [
+      ['independent', leftPlan.bits + rightPlan.bits],
+      ['left-side', leftPlan.bits + sidePlan.bits],
+      ['right-side', sidePlan.bits + rightPlan.bits],
+      ['mid-side', midPlan.bits + sidePlan.bits],
+    ];
+    assignment = candidates.reduce((a, b) => (b[1] < a[1] ? b : a))[0];
+
+    const sideFrame = { samples: side, bps: bps + 1, plan: sidePlan };
+    if (assignment === 'left-side') subframes = [subframes[0], sideFrame];
+    else if (assignment === 'right-side') subframes = [sideFrame, subframes[1]];
+    else if (assignment === 'mid-side') subframes = [{ samples: mid, bps, plan: midPlan }, sideFrame];
+  }
+
+  const frameStart = w.byteLength;
+
+  // Frame header
+  w.write(0b11111111111110, 14); // sync
+  w.write(0, 1);                 // reserved
+  w.write(0, 1);                 // fixed block size stream
+  const blockSizeCode = blockSize === BLOCK_SIZE ? 0b1100 : 0b0111;
+  w.write(blockSizeCode, 4);
+  const rateCode = SAMPLE_RATE_CODES[options.sampleRate];
+  w.write(rateCode ?? 0b1101, 4);
+  const channelCode =
+    assignment === 'left-side' ? 0b1000
+    : assignment === 'right-side' ? 0b1001
+    : assignment === 'mid-side' ? 0b1010
+    : channels.length - 1;
+  w.write(channelCode, 4);
+  w.write(bps === 24 ? 0b110 : 0b100, 3);
+  w.write(0, 1);
+  writeUtf8Number(w, frameNumber);
+  if (blockSizeCode === 0b0111) w.write(blockSize - 1, 16);
+  if (rateCode === undefined) w.write(options.sampleRate, 16);
+  w.write(crc8(w.bytesFrom(frameStart)), 8);
+
+  for (const sub of subframes) writeSubframe(w, sub.samples, sub.bps, sub.plan);
+
+  w.alignToByte();
+  w.write(crc16(w.bytesFrom(frameStart)), 16);
+}
+
+function writeMetadataBlockHeader(w: BitWriter, isLast: boolean, type: number, length: number) {
+  w.write(isLast ? 1 : 0, 1);
+  w.write(type, 7);
+  w.write(length, 24);
+}
+
+function writeVorbisComment(w: BitWriter, tags: Record<string, string>, isLast: boolean) {
+  const encoder = new TextEncoder();
+  const vendor = encoder.encode('ace-step-daw');
+  const comments = Object.entries(tags).map(([key, value]) => encoder.encode(`${key}=${value}`));
+  const length = 4 + vendor.length + 4 + comments.reduce((sum, c) => sum + 4 + c.length, 0);
+
+  // Vorbis comment lengths are little-endian, unlike the rest of FLAC
+  const writeLE32 = (value: number) => {
+    for (let i = 0; i < 4; i++) w.write((value >>> (8 * i)) & 0xFF, 8);
+  };
+
+  writeMetadataBlockHeader(w, isLast, 4, length);
+  writeLE32(vendor.length);
+  vendor.forEach((b) => w.write(b, 8));
+  writeLE32(comments.length);
+  for (const comment of comments) {
+    writeLE32(comment.length);
+    comment.forEach((b) => w.write(b, 8));
+  }
+}
+
+/** Encode integer PCM (one Int32Array per channel, 1–8 channels) to a FLAC file. */
+export function encodeFlac(channels: Int32Array[], options: FlacEncodeOptions): Uint8Array {
+  const w = new BitWriter();
+  const totalSamples = channels[0]?.length ?? 0;
+  const tags = options.tags ?? {};
+  const hasTags = Object.keys(tags).length > 0;
+
+  w.write(0x664C6143, 32); // "fLaC"
+
+  // STREAMINFO; frame sizes are left as 0 (unknown) and MD5 as all zeros
+  writeMetadataBlockHeader(w, !hasTags, 0, 34);
+  w.write(BLOCK_SIZE, 16);
+  w.write(BLOCK_SIZE, 16);
+  w.write(0, 24);
+  w.write(0, 24);
+  w.write(options.sampleRate, 20);
+  w.write(channels.length - 1, 3);
+  w.write(options.bitsPerSample - 1, 5);
+  w.write(totalSamples, 36);
+  for (let i = 0; i < 16; i++) w.write(0, 8);
+
+  if (hasTags) writeVorbisComment(w, tags, true);
+
+  let frameNumber = 0;
+  for (let start = 0; start < totalSamples; start += BLOCK_SIZE) {
+    const blockSize = Math.min(BLOCK_SIZE, totalSamples - start);
+    writeFrame(w, channels, start, blockSize, frameNumber++, options);
+  }
+
+  return w.finish();
+}
@@ -0,0 +1,40 @@
+/** Text frames for an ID3v2.3 tag, keyed by frame id (TIT2, TBPM, TKEY, ...). */
+export type Id3Frames = Record<string, string>;
+
+function syncsafe(size: number): number[] {
+  return [(size >> 21) & 0x7F, (size >> 14) & 0x7F, (size >> 7) & 0x7F, size & 0x7F];
+}
+
+/** UTF-16 with BOM — the only Unicode text encoding ID3v2.3 has. */
+function encodeText(text: string): number[] {
+  const bytes = [0x01, 0xFF, 0xFE];
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    bytes.push(code & 0xFF, code >> 8);
+  }
+  return bytes;
+}
+
+/** Build an ID3v2.3 tag to prepend to an MP3 stream. */
+export function createId3Tag(frames: Id3Frames): Uint8Array {
+  const body: number[] = [];
+  for (const [id, text] of Object.entries(frames)) {
+    if (!text) continue;
+    const content = encodeText(text);
+    const size = content.length;
+    body.push(
+      ...Array.from(id, (c) => c.charCodeAt(0)),
+      (size >>> 24) & 0xFF, (size >>> 16) & 0xFF, (size >>> 8) & 0xFF, size & 0xFF,
+      0, 0, // flags
+      ...content,
+    );
+  }
+
+  return new Uint8Array([
+    0x49, 0x44, 0x33, // "ID3"
+    3, 0,             // v2.3.0
+    0,                // flags
+    ...syncsafe(body.length),
+    ...body,
+  ]);
+}
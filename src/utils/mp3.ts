@@ -0,0 +1,32 @@
+import { Mp3Encoder } from '@breezystack/lamejs';
+
+const FRAME_SAMPLES = 1152;
+
+/**
+ * Encode 16-bit PCM (one Int32Array per channel, mono or stereo) to a CBR MP3
+ * stream. MP3 only supports up to 48 kHz.
+ */
+export function encodeMp3(channels: Int32Array[], sampleRate: number, kbps: number): Uint8Array {
+  const encoder = new Mp3Encoder(channels.length, sampleRate, kbps);
+  const left = Int16Array.from(channels[0]);
+  const right = channels.length > 1 ? Int16Array.from(channels[1]) : undefined;
+
+  const chunks: Uint8Array[] = [];
+  for (let i = 0; i < left.length; i += FRAME_SAMPLES) {
+    const chunk = encoder.encodeBuffer(
+      left.subarray(i, i + FRAME_SAMPLES),
+      right?.subarray(i, i + FRAME_SAMPLES),
+    );
+    if (chunk.length > 0) chunks.push(chunk);
+  }
+  const tail = encoder.flush();
+  if (tail.length > 0) chunks.push(tail);
+
+  const output = new Uint8Array(chunks.reduce((sum, c) => sum + c.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    output.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return output;
+}
@@ -0,0 +1,5 @@
+/** Pan position for display: "C" at center, else percent left or right, e.g. "35L". */
+export function formatPan(pan: number): string {
+  if (Math.abs(pan) < 0.005) return 'C';
+  return `${Math.round(Math.abs(pan) * 100)}${pan < 0 ? 'L' : 'R'}`;
+}
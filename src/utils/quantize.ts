@@ -0,0 +1,48 @@
+/** Dither for integer output: none, flat TPDF, or TPDF with noise shaping. */
+export type DitherMode = 'none' | 'tpdf' | 'shaped';
+
+// Error-feedback filter that pushes requantization noise above ~10 kHz, where
+// hearing is least sensitive (Wannamaker's 3-tap modified E-weighting).
+const NOISE_SHAPING_COEFFS = [1.623, -0.982, 0.109];
+
+/**
+ * Convert float samples to signed integers of `bitDepth` bits: scale,
+ * optionally dither, round and clamp. Each channel keeps its own shaping state.
+ */
+export function quantizeChannels(
+  channels: Float32Array[],
+  bitDepth: 16 | 24,
+  dither: DitherMode = 'none',
+): Int32Array[] {
+  const maxInt = bitDepth === 24 ? 0x7FFFFF : 0x7FFF;
+  const minInt = -maxInt - 1;
+  const shaped = dither === 'shaped';
+
+  return channels.map((input) => {
+    const output = new Int32Array(input.length);
+    // Error history for noise shaping: e(n-1), e(n-2), e(n-3)
+    let e1 = 0, e2 = 0, e3 = 0;
+
+    for (let i = 0; i < input.length; i++) {
+      let value = input[i] * maxInt;
+      if (shaped) {
+        value -= NOISE_SHAPING_COEFFS[0] * e1 + NOISE_SHAPING_COEFFS[1] * e2 + NOISE_SHAPING_COEFFS[2] * e3;
+      }
+
+      // TPDF: sum of two uniform randoms, ±1 LSB peak
+      const noise = dither === 'none' ? 0 : Math.random() - Math.random();
+      let quantized = Math.round(value + noise);
+      if (quantized > maxInt) quantized = maxInt;
+      else if (quantized < minInt) quantized = minInt;
+
+      if (shaped) {
+        e3 = e2;
+        e2 = e1;
+        // Clamp the fed-back error so a clipped sample can't destabilise the loop
+        e1 = Math.max(-2, Math.min(2, quantized - value));
+      }
+      output[i] = quantized;
+    }
+    return output;
+  });
+}
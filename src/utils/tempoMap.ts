@@ -0,0 +1,180 @@
+import type { Project, TempoChange } from '../types/project';
+
+/** A stretch of the timeline with one meter and a constant or linearly ramping tempo. */
+export interface TempoSegment {
+  /** 1-based bar the segment starts on. */
+  startBar: number;
+  /** Beats from the timeline start to the segment start. */
+  startBeat: number;
+  startTime: number;
+  /** Length in beats; Infinity for the last segment. */
+  beats: number;
+  startBpm: number;
+  /** Tempo reached at the segment end — differs from startBpm only when the next change ramps. */
+  endBpm: number;
+  timeSignature: number;
+}
+
+export interface TempoMap {
+  segments: TempoSegment[];
+}
+
+export interface BarsBeats {
+  bars: number;
+  beats: number;
+  ticks: number;
+}
+
+/** Seconds taken by the first `beats` beats of a segment. */
+function segmentSeconds(seg: TempoSegment, beats: number): number {
+  if (seg.startBpm === seg.endBpm) return (beats * 60) / seg.startBpm;
+  // Tempo ramps linearly per beat: integrate 60 / bpm(beat)
+  const slope = (seg.endBpm - seg.startBpm) / seg.beats;
+  return (60 / slope) * Math.log(1 + (slope * beats) / seg.startBpm);
+}
+
+/** Beats covered in the first `seconds` of a segment. */
+function segmentBeats(seg: TempoSegment, seconds: number): number {
+  if (seg.startBpm === seg.endBpm) return (seconds * seg.startBpm) / 60;
+  const slope = (seg.endBpm - seg.startBpm) / seg.beats;
+  return (seg.startBpm / slope) * (Math.exp((slope * seconds) / 60) - 1);
+}
+
+/**
+ * Build the map from a project's opening tempo/meter and its tempo changes.
+ * Changes on bar 1 or below replace the opening values; when two share a bar
+ * the later one wins.
+ */
+export function buildTempoMap(bpm: number, timeSignature: number, changes: TempoChange[] = []): TempoMap {
+  const byBar = new Map<number, TempoChange>();
+  for (const change of changes) byBar.set(Math.max(1, Math.round(change.bar)), change);
+  const opening = byBar.get(1);
+  byBar.delete(1);
+  const sorted = [...byBar.entries()].sort((a, b) => a[0] - b[0]);
+
+  const segments: TempoSegment[] = [];
+  let seg: TempoSegment = {
+    startBar: 1,
+    startBeat: 0,
+    startTime: 0,
+    beats: Infinity,
+    startBpm: opening?.bpm ?? bpm,
+    endBpm: opening?.bpm ?? bpm,
+    timeSignature: Math.max(1, opening?.timeSignature ?? timeSignature),
+  };
+  for (const [bar, change] of sorted) {
+    seg.beats = (bar - seg.startBar) * seg.timeSignature;
+    if (change.ramp) seg.endBpm = change.bpm;
+    segments.push(seg);
+    seg = {
+      startBar: bar,
+      startBeat: seg.startBeat + seg.beats,
+      startTime: seg.startTime + segmentSeconds(seg, seg.beats),
+      beats: Infinity,
+      startBpm: change.bpm,
+      endBpm: change.bpm,
+      timeSignature: Math.max(1, change.timeSignature),
+    };
+  }
+  segments.push(seg);
+  return { segments };
+}
+
+const mapCache = new WeakMap<Project, TempoMap>();
+
+/** The project's tempo map, built once per project revision. */
+export function getTempoMap(project: Project): TempoMap {
+  let map = mapCache.get(project);
+  if (!map) {
+    map = buildTempoMap(project.bpm, project.timeSignature, project.tempoChanges);
+    mapCache.set(project, map);
+  }
+  return map;
+}
+
+function segmentAtTime(map: TempoMap, seconds: number): TempoSegment {
+  let found = map.segments[0];
+  for (const seg of map.segments) {
+    if (seg.startTime > seconds) break;
+    found = seg;
+  }
+  return found;
+}
+
+function segmentAtBeat(map: TempoMap, beats: number): TempoSegment {
+  let found = map.segments[0];
+  for (const seg of map.segments) {
+    if (seg.startBeat > beats) break;
+    found = seg;
+  }
+  return found;
+}
+
+export function timeToBeats(map: TempoMap, seconds: number): number {
+  const seg = segmentAtTime(map, seconds);
+  return seg.startBeat + segmentBeats(seg, seconds - seg.startTime);
+}
+
+export function beatsToTime(map: TempoMap, beats: number): number {
+  const seg = segmentAtBeat(map, beats);
+  return seg.startTime + segmentSeconds(seg, beats - seg.startBeat);
+}
+
+/** Bar (1-based), beat within the bar (1-based) and hundredths of a beat at a beat position. */
+export function beatsToBarsBeats(map: TempoMap, beats: number): BarsBeats {
+  const seg = segmentAtBeat(map, beats);
+  const inSegment = beats - seg.startBeat;
+  return {
+    bars: seg.startBar + Math.floor(inSegment / seg.timeSignature),
+    beats: Math.floor(inSegment % seg.timeSignature) + 1,
+    ticks: Math.round((inSegment % 1) * 100),
+  };
+}
+
+/** Start of a 1-based bar in seconds. */
+export function barToTime(map: TempoMap, bar: number): number {
+  return barPositionToTime(map, bar);
+}
+
+/** The 1-based bar containing `seconds`. */
+export function timeToBar(map: TempoMap, seconds: number): number {
+  return beatsToBarsBeats(map, timeToBeats(map, seconds)).bars;
+}
+
+/** Position as a fractional 1-based bar: 3.5 is halfway through bar 3, whatever its meter. */
+export function timeToBarPosition(map: TempoMap, seconds: number): number {
+  const beats = timeToBeats(map, seconds);
+  const seg = segmentAtBeat(map, beats);
+  return seg.startBar + (beats - seg.startBeat) / seg.timeSignature;
+}
+
+export function barPositionToTime(map: TempoMap, position: number): number {
+  const seg = [...map.segments].reverse().find((s) => s.startBar <= position) ?? map.segments[0];
+  return beatsToTime(map, seg.startBeat + (position - seg.startBar) * seg.timeSignature);
+}
+
+/** Tempo (rounded to a whole BPM mid-ramp) and meter in effect at `seconds`. */
+export function getTempoAt(map: TempoMap, seconds: number): { bpm: number; timeSignature: number } {
+  const seg = segmentAtTime(map, seconds);
+  if (seg.startBpm === seg.endBpm) return { bpm: seg.startBpm, timeSignature: seg.timeSignature };
+  const progress = segmentBeats(seg, seconds - seg.startTime) / seg.beats;
+  return {
+    bpm: Math.round(seg.startBpm + (seg.endBpm - seg.startBpm) * progress),
+    timeSignature: seg.timeSignature,
+  };
+}
+
+// Beats within this of a range edge belong to the following range, so adjacent ranges never share one
+const EDGE_EPSILON = 1e-6;
+
+/** Every beat from `from` up to (not including) `to`, in seconds, flagging the downbeats. */
+export function getBeatsInRange(map: TempoMap, from: number, to: number): { time: number; isBar: boolean }[] {
+  const result: { time: number; isBar: boolean }[] = [];
+  for (let beat = Math.ceil(timeToBeats(map, from) - EDGE_EPSILON); ; beat++) {
+    const time = beatsToTime(map, beat);
+    if (time >= to - EDGE_EPSILON) break;
+    const seg = segmentAtBeat(map, beat);
+    result.push({ time, isBar: (beat - seg.startBeat) % seg.timeSignature === 0 });
+  }
+  return result;
+}
@@ -1,3 +1,5 @@
+import { beatsToBarsBeats, beatsToTime, timeToBeats, type BarsBeats, type TempoMap } from './tempoMap';
+
 export function secondsToBeats(seconds: number, bpm: number): number {
   return (seconds / 60) * bpm;
 }
@@ -6,16 +8,8 @@ export function beatsToSeconds(beats: number, bpm: number): number {
   return (beats / bpm) * 60;
 }
 
-export function secondsToBarsBeats(
-  seconds: number,
-  bpm: number,
-  timeSignature: number,
-): { bars: number; beats: number; ticks: number } {
-  const totalBeats = secondsToBeats(seconds, bpm);
-  const bars = Math.floor(totalBeats / timeSignature) + 1;
-  const beats = Math.floor(totalBeats % timeSignature) + 1;
-  const ticks = Math.round((totalBeats % 1) * 100);
-  return { bars, beats, ticks };
+export function secondsToBarsBeats(seconds: number, tempo: TempoMap): BarsBeats {
+  return beatsToBarsBeats(tempo, timeToBeats(tempo, seconds));
 }
 
 export function formatTime(seconds: number): string {
@@ -24,23 +18,19 @@ export function formatTime(seconds: number): string {
   return `${mins}:${secs.toFixed(1).padStart(4, '0')}`;
 }
 
-export function formatBarsBeats(
-  seconds: number,
-  bpm: number,
-  timeSignature: number,
-): string {
-  const { bars, beats, ticks } = secondsToBarsBeats(seconds, bpm, timeSignature);
+export function formatBarsBeats(seconds: number, tempo: TempoMap): string {
+  const { bars, beats, ticks } = secondsToBarsBeats(seconds, tempo);
   return `${bars}.${beats}.${ticks.toString().padStart(2, '0')}`;
 }
 
+/** Snap to the nearest grid line, following tempo and meter changes. */
 export function snapToGrid(
   time: number,
-  bpm: number,
+  tempo: TempoMap,
   division: number = 1, // 1 = beat, 0.5 = half beat, 0.25 = 16th note
 ): number {
-  const beatDuration = 60 / bpm;
-  const gridSize = beatDuration * division;
-  return Math.round(time / gridSize) * gridSize;
+  const beats = timeToBeats(tempo, time);
+  return beatsToTime(tempo, Math.round(beats / division) * division);
 }
 
 export function getBarDuration(bpm: number, timeSignature: number): number {
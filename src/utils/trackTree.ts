@@ -0,0 +1,113 @@
+import type { Track } from '../types/project';
+
+export function isGroupTrack(track: Pick<Track, 'trackName'>): boolean {
+  return track.trackName === 'group';
+}
+
+function findParent(tracks: Track[], track: Track): Track | undefined {
+  if (!track.parentId) return undefined;
+  const parent = tracks.find((t) => t.id === track.parentId);
+  return parent && isGroupTrack(parent) ? parent : undefined;
+}
+
+/** Groups above a track, nearest first. Stops at a cycle rather than looping. */
+export function getTrackAncestors(tracks: Track[], track: Track): Track[] {
+  const ancestors: Track[] = [];
+  const seen = new Set([track.id]);
+  let parent = findParent(tracks, track);
+  while (parent && !seen.has(parent.id)) {
+    ancestors.push(parent);
+    seen.add(parent.id);
+    parent = findParent(tracks, parent);
+  }
+  return ancestors;
+}
+
+/**
+ * The group a track is summed into, or undefined when it feeds the master.
+ * A parentId pointing at a missing or non-group track, or one that leads back
+ * to the track itself, is ignored.
+ */
+export function getParentTrack(tracks: Track[], track: Track): Track | undefined {
+  const parent = findParent(tracks, track);
+  if (!parent || getTrackAncestors(tracks, parent).some((a) => a.id === track.id)) return undefined;
+  return parent;
+}
+
+/** Every track nested (at any depth) under `trackId`. */
+export function getTrackDescendants(tracks: Track[], trackId: string): Track[] {
+  return tracks.filter((t) => getTrackAncestors(tracks, t).some((a) => a.id === trackId));
+}
+
+export interface TrackRow {
+  track: Track;
+  /** Nesting level: 0 for tracks feeding the master. */
+  depth: number;
+}
+
+/**
+ * Tracks in display order: siblings by `order`, each group followed by its
+ * children. Children of groups in `collapsed` are left out.
+ */
+export function getTrackRows(tracks: Track[], collapsed: Set<string> = new Set()): TrackRow[] {
+  const sorted = [...tracks].sort((a, b) => a.order - b.order);
+  const children = new Map<string | undefined, Track[]>();
+  for (const track of sorted) {
+    const key = getParentTrack(tracks, track)?.id;
+    children.set(key, [...(children.get(key) ?? []), track]);
+  }
+
+  const rows: TrackRow[] = [];
+  const visit = (parentId: string | undefined, depth: number) => {
+    for (const track of children.get(parentId) ?? []) {
+      rows.push({ track, depth });
+      if (!collapsed.has(track.id)) visit(track.id, depth + 1);
+    }
+  };
+  visit(undefined, 0);
+  return rows;
+}
+
+/**
+ * Whether a track passes audio while some track is soloed: it is soloed
+ * itself, sits inside a soloed group, or is a group carrying a soloed track.
+ */
+export function isSoloSafe(tracks: Track[], track: Track): boolean {
+  if (track.soloed) return true;
+  if (getTrackAncestors(tracks, track).some((a) => a.soloed)) return true;
+  return getTrackDescendants(tracks, track.id).some((d) => d.soloed);
+}
+
+/**
+ * Whether a track is heard in the mix: neither it nor a group it sits in is
+ * muted, and no solo elsewhere silences it.
+ */
+export function isTrackAudible(tracks: Track[], track: Track): boolean {
+  if (track.muted || getTrackAncestors(tracks, track).some((a) => a.muted)) return false;
+  return !tracks.some((t) => t.soloed) || isSoloSafe(tracks, track);
+}
+
+/** Tracks a track's sidechain compressors are keyed from. */
+function getSidechainKeyIds(track: Track): string[] {
+  return (track.effects ?? []).flatMap((e) => (e.type === 'sidechain' && e.keyTrackId ? [e.keyTrackId] : []));
+}
+
+/** Whether the output of `trackId` carries (or is keyed by) the output of `sourceId`. */
+function dependsOn(tracks: Track[], trackId: string, sourceId: string, seen: Set<string>): boolean {
+  if (trackId === sourceId) return true;
+  if (seen.has(trackId)) return false;
+  seen.add(trackId);
+  const track = tracks.find((t) => t.id === trackId);
+  if (!track) return false;
+  const members = tracks.filter((t) => getParentTrack(tracks, t)?.id === trackId).map((t) => t.id);
+  return [...members, ...getSidechainKeyIds(track)].some((id) => dependsOn(tracks, id, sourceId, seen));
+}
+
+/**
+ * Whether `keyTrackId` can key a sidechain compressor on `trackId`. The key
+ * must not depend on the track's own output — so not a group it sits in, nor
+ * a track that is itself keyed from it — or the graph would feed back.
+ */
+export function canKeySidechain(tracks: Track[], trackId: string, keyTrackId: string): boolean {
+  return !dependsOn(tracks, keyTrackId, trackId, new Set());
+}
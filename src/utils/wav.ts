@@ -1,12 +1,34 @@
-export function audioBufferToWavBlob(buffer: AudioBuffer): Blob {
+import { quantizeChannels, type DitherMode } from './quantize';
+
+export type { DitherMode } from './quantize';
+
+/** 16/24-bit integer PCM, or 32-bit IEEE float. */
+export type WavBitDepth = 16 | 24 | 32;
+
+export interface WavEncodeOptions {
+  bitDepth?: WavBitDepth;
+  dither?: DitherMode;
+}
+
+const WAVE_FORMAT_PCM = 1;
+const WAVE_FORMAT_IEEE_FLOAT = 3;
+
+export function audioBufferToWavBlob(buffer: AudioBuffer, options: WavEncodeOptions = {}): Blob {
+  const bitDepth = options.bitDepth ?? 16;
+  const isFloat = bitDepth === 32;
   const numChannels = buffer.numberOfChannels;
   const sampleRate = buffer.sampleRate;
-  const bitsPerSample = 16;
+  const bytesPerSample = bitDepth / 8;
   const length = buffer.length;
-  const byteRate = sampleRate * numChannels * (bitsPerSample / 8);
-  const blockAlign = numChannels * (bitsPerSample / 8);
+  const byteRate = sampleRate * numChannels * bytesPerSample;
+  const blockAlign = numChannels * bytesPerSample;
   const dataSize = length * blockAlign;
-  const bufferSize = 44 + dataSize;
+
+  // Non-PCM formats carry an 18-byte fmt chunk (with cbSize) and a fact chunk
+  const fmtSize = isFloat ? 18 : 16;
+  const factSize = isFloat ? 12 : 0;
+  const headerSize = 12 + 8 + fmtSize + factSize + 8;
+  const bufferSize = headerSize + dataSize;
 
   const arrayBuffer = new ArrayBuffer(bufferSize);
   const view = new DataView(arrayBuffer);
@@ -17,32 +39,60 @@ export function audioBufferToWavBlob(buffer: AudioBuffer): Blob {
   writeString(view, 8, 'WAVE');
 
   // fmt chunk
-  writeString(view, 12, 'fmt ');
-  view.setUint32(16, 16, true);          // chunk size
-  view.setUint16(20, 1, true);           // PCM format
-  view.setUint16(22, numChannels, true);
-  view.setUint32(24, sampleRate, true);
-  view.setUint32(28, byteRate, true);
-  view.setUint16(32, blockAlign, true);
-  view.setUint16(34, bitsPerSample, true);
+  let offset = 12;
+  writeString(view, offset, 'fmt ');
+  view.setUint32(offset + 4, fmtSize, true);
+  view.setUint16(offset + 8, isFloat ? WAVE_FORMAT_IEEE_FLOAT : WAVE_FORMAT_PCM, true);
+  view.setUint16(offset + 10, numChannels, true);
+  view.setUint32(offset + 12, sampleRate, true);
+  view.setUint32(offset + 16, byteRate, true);
+  view.setUint16(offset + 20, blockAlign, true);
+  view.setUint16(offset + 22, bitDepth, true);
+  if (isFloat) view.setUint16(offset + 24, 0, true); // cbSize
+  offset += 8 + fmtSize;
+
+  // fact chunk (sample frames per channel)
+  if (isFloat) {
+    writeString(view, offset, 'fact');
+    view.setUint32(offset + 4, 4, true);
+    view.setUint32(offset + 8, length, true);
+    offset += factSize;
+  }
 
   // data chunk
-  writeString(view, 36, 'data');
-  view.setUint32(40, dataSize, true);
+  writeString(view, offset, 'data');
+  view.setUint32(offset + 4, dataSize, true);
+  offset += 8;
 
-  // Interleave channels and write samples
   const channels: Float32Array[] = [];
   for (let ch = 0; ch < numChannels; ch++) {
     channels.push(buffer.getChannelData(ch));
   }
 
-  let offset = 44;
+  if (isFloat) {
+    for (let i = 0; i < length; i++) {
+      for (let ch = 0; ch < numChannels; ch++) {
+        view.setFloat32(offset, channels[ch][i], true);
+        offset += 4;
+      }
+    }
+    return new Blob([arrayBuffer], { type: 'audio/wav' });
+  }
+
+  // Integer PCM: scale, optionally dither, round and clamp
+  const samples = quantizeChannels(channels, bitDepth, options.dither);
   for (let i = 0; i < length; i++) {
     for (let ch = 0; ch < numChannels; ch++) {
-      const sample = Math.max(-1, Math.min(1, channels[ch][i]));
-      const int16 = sample < 0 ? sample * 0x8000 : sample * 0x7FFF;
-      view.setInt16(offset, int16, true);
-      offset += 2;
+      const sample = samples[ch][i];
+      if (bitDepth === 24) {
+        view.setUint8(offset, sample & 0xFF);
+        view.setUint8(offset + 1, (sample >> 8) & 0xFF);
+        view.setUint8(offset + 2, (sample >> 16) & 0xFF);
+        offset += 3;
+      } else {
+        view.setInt16(offset, sample, true);
+        offset += 2;
+      }
     }
   }
 
@@ -0,0 +1,63 @@
+import type { AudioMetadata } from '../constants/export';
+import { quantizeChannels, type DitherMode } from '../utils/quantize';
+import { encodeFlac } from '../utils/flac';
+import { encodeMp3 } from '../utils/mp3';
+import { createId3Tag } from '../utils/id3';
+
+export interface EncodeRequest {
+  id: number;
+  fileType: 'flac' | 'mp3';
+  channels: Float32Array[];
+  sampleRate: number;
+  bitDepth: 16 | 24;
+  dither: DitherMode;
+  mp3Bitrate: number;
+  metadata: AudioMetadata;
+}
+
+export type EncodeResponse =
+  | { id: number; data: Uint8Array }
+  | { id: number; error: string };
+
+/** "C# minor" → "C#m", "F major" → "F" — the TKEY / INITIALKEY notation. */
+function formatKeyTag(keyScale: string): string {
+  const match = keyScale.match(/^([A-G][#b]?)\s*(major|minor)?/i);
+  if (!match) return keyScale;
+  return match[2]?.toLowerCase() === 'minor' ? `${match[1]}m` : match[1];
+}
+
+function encode(request: EncodeRequest): Uint8Array {
+  const { metadata } = request;
+  const bpm = String(Math.round(metadata.bpm));
+  const key = formatKeyTag(metadata.keyScale);
+
+  if (request.fileType === 'flac') {
+    const samples = quantizeChannels(request.channels, request.bitDepth, request.dither);
+    return encodeFlac(samples, {
+      sampleRate: request.sampleRate,
+      bitsPerSample: request.bitDepth,
+      tags: { TITLE: metadata.title, BPM: bpm, INITIALKEY: key },
+    });
+  }
+
+  // LAME takes 16-bit input
+  const samples = quantizeChannels(request.channels, 16, request.dither);
+  const tag = createId3Tag({ TIT2: metadata.title, TBPM: bpm, TKEY: key });
+  const audio = encodeMp3(samples, request.sampleRate, request.mp3Bitrate);
+  const output = new Uint8Array(tag.length + audio.length);
+  output.set(tag, 0);
+  output.set(audio, tag.length);
+  return output;
+}
+
+self.onmessage = (e: MessageEvent<EncodeRequest>) => {
+  const { id } = e.data;
+  try {
+    const data = encode(e.data);
+    const response: EncodeResponse = { id, data };
+    self.postMessage(response, { transfer: [data.buffer] });
+  } catch (error) {
+    const response: EncodeResponse = { id, error: error instanceof Error ? error.message : String(error) };
+    self.postMessage(response);
+  }
+};
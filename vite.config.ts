@@ -60,6 +60,11 @@ function proxyApiRequest(req: IncomingMessage, res: ServerResponse) {
     res.end(JSON.stringify({ error: err.message }));
   });
 
+  // Client went away (e.g. a cancelled generation) — drop the upstream request too
+  res.on('close', () => {
+    if (!res.writableEnded) proxyReq.destroy();
+  });
+
   req.pipe(proxyReq);
 }
 